@@ -1,21 +1,85 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { createHash } from "crypto";
+import { existsSync, realpathSync } from "fs";
+import { mkdir, readFile, rename, writeFile } from "fs/promises";
+import { IncomingHttpHeaders, IncomingMessage } from "http";
+import { homedir } from "os";
+import { basename, dirname, extname, join, resolve } from "path";
+import { setTimeout as delay } from "timers/promises";
+import { pathToFileURL } from "url";
 import { config } from "dotenv";
-import { FastMCP, imageContent, Progress, UserError, Content } from "fastmcp";
+import {
+  FastMCP,
+  FastMCPSession,
+  ImageContent,
+  Progress,
+  UserError,
+  Content,
+  ContentResult,
+} from "fastmcp";
+import {
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import sharp from "sharp";
 import { z } from "zod";
 // Load environment variables
 config();
 
-if (!process.env.PIAPI_API_KEY) {
-  console.error("Error: PIAPI API key not set");
-  process.exit(1);
-}
-
 // Parse command line arguments for environment
 const args = process.argv.slice(2);
-const envArg = args.find(arg => arg.startsWith('--env='));
-const envValue = envArg ? envArg.split('=')[1] : process.env.NODE_ENV;
+const getArgValue = (name: string) =>
+  args.find(arg => arg.startsWith(`--${name}=`))?.slice(name.length + 3);
+const envValue = getArgValue('env') || process.env.NODE_ENV;
+
+// stdio serves a single client with the API key from env, httpStream serves
+// many sessions over Streamable HTTP and SSE, each bringing its own API key in
+// a request header. sse is still accepted as another name for httpStream
+const transportType =
+  getArgValue('transport') || process.env.PIAPI_MCP_TRANSPORT || 'stdio';
+if (!['stdio', 'httpStream', 'sse'].includes(transportType)) {
+  console.error(
+    `Error: unknown transport '${transportType}', expected one of stdio, httpStream, sse`
+  );
+  process.exit(1);
+}
+const port = parseInt(getArgValue('port') || process.env.PORT || '3000');
+const endpoint = (getArgValue('endpoint') || '/mcp') as `/${string}`;
 
-const apiKey: string = process.env.PIAPI_API_KEY;
+const envApiKey = process.env.PIAPI_API_KEY;
+if (transportType === 'stdio' && !envApiKey) {
+  console.error("Error: PIAPI API key not set");
+  process.exit(1);
+}
+const apiBaseUrl = (
+  getArgValue('base-url') ||
+  process.env.PIAPI_BASE_URL ||
+  'https://api.piapi.ai'
+).replace(/\/+$/, '');
 const isProduction = envValue === 'production';
+const requestTimeout = parseInt(
+  getArgValue('request-timeout') || process.env.PIAPI_REQUEST_TIMEOUT || '30'
+); // in seconds
+
+// Local files and data: URIs given as inputs are uploaded here first, PiAPI's
+// ephemeral storage or a stand-in with the same API
+const uploadUrl =
+  getArgValue('upload-url') ||
+  process.env.PIAPI_UPLOAD_URL ||
+  'https://upload.theapi.app/api/ephemeral_resource';
+
+// Image previews are downscaled to fit the size clients accept, WIDTHxHEIGHT
+const previewMaxSize =
+  getArgValue('preview-max-size') || process.env.PIAPI_PREVIEW_MAX_SIZE || '768x1024';
+const previewSizeMatch = previewMaxSize.match(/^(\d+)x(\d+)$/);
+if (!previewSizeMatch) {
+  console.error(
+    `Error: invalid preview size '${previewMaxSize}', expected WIDTHxHEIGHT like 768x1024`
+  );
+  process.exit(1);
+}
+const previewMaxWidth = parseInt(previewSizeMatch[1]);
+const previewMaxHeight = parseInt(previewSizeMatch[2]);
 
 // Configure logging levels based on environment
 const logger = {
@@ -31,85 +95,464 @@ const logger = {
 
 // Log environment information
 logger.info(`Running in ${isProduction ? 'production' : 'development'} mode`);
+logger.info(`Using PiAPI at ${apiBaseUrl}`);
+
+// Every created task is recorded in a local ledger
+const taskLedgerPath =
+  getArgValue('task-ledger') ||
+  process.env.PIAPI_TASK_LEDGER ||
+  join(homedir(), '.piapi-mcp-server', 'tasks.json');
+const taskLedger = createTaskLedger(taskLedgerPath);
+logger.info(`Recording tasks in ${taskLedgerPath}`);
+
+// PiAPI urls expire, when set the outputs of every task are downloaded here
+const outputDirArg = getArgValue('output-dir') || process.env.PIAPI_OUTPUT_DIR;
+const outputDir = outputDirArg ? resolve(outputDirArg) : undefined;
+if (outputDir) {
+  logger.info(`Saving task outputs to ${outputDir}`);
+}
 
-const server = new FastMCP({
-  name: "piapi",
-  version: "1.0.0",
-});
-
-registerTools(server);
+const server = createServer();
 
 // Start the server
 async function main() {
   try {
-    await server.start({
-      transportType: "stdio",
-    });
+    if (transportType === "stdio") {
+      await server.start({
+        transportType: "stdio",
+      });
+    } else {
+      await server.start({
+        transportType: "httpStream",
+        httpStream: { endpoint, port },
+      });
+    }
   } catch (error) {
     console.error("Failed to start server:", error);
     process.exit(1);
   }
 }
 
-main().catch((error) => {
-  console.error("Fatal error in main():", error);
-  process.exit(1);
-});
+// Only start when run directly, the tests import the tools without a server
+if (
+  process.argv[1] &&
+  import.meta.url === pathToFileURL(realpathSync(process.argv[1])).href
+) {
+  main().catch((error) => {
+    console.error("Fatal error in main():", error);
+    process.exit(1);
+  });
+}
+
+// The server with every tool and resource, exported for the tests to connect
+// to without a transport
+export function createServer(): FastMCP<SessionAuth> {
+  const server = new FastMCP<SessionAuth>({
+    name: "piapi",
+    version: "1.0.0",
+    authenticate: authenticateSession,
+  });
+  registerTools(server);
+  registerResources(server);
+
+  server.on("connect", ({ session }) => {
+    setupTaskSubscriptions(session);
+  });
+  server.on("disconnect", ({ session }) => {
+    unsubscribeSession(session);
+  });
+  return server;
+}
 
 // Register Tools
-function registerTools(server: FastMCP) {
-  registerGeneralTool(server);
-  registerImageTool(server);
-  registerVideoTool(server);
-  registerFluxTool(server);
-  registerHunyuanTool(server);
-  registerSkyreelsTool(server);
-  registerWanTool(server);
-  registerMMAudioTool(server);
-  registerTTSTool(server);
-  registerMidjourneyTool(server);
-  registerKlingTool(server);
-  registerLumaTool(server);
-  registerSunoTool(server);
-  registerTrellisTool(server);
-  registerHailuoTool(server);
+function registerTools(server: FastMCP<SessionAuth>) {
+  const tools = withRequestContext(server);
+  registerGeneralTool(tools);
+  registerTaskTool(tools);
+  registerImageTool(tools);
+  registerVideoTool(tools);
+  registerFluxTool(tools);
+  registerGPT4oImageTool(tools);
+  registerIdeogramTool(tools);
+  registerHunyuanTool(tools);
+  registerSkyreelsTool(tools);
+  registerWanTool(tools);
+  registerMMAudioTool(tools);
+  registerTTSTool(tools);
+  registerMidjourneyTool(tools);
+  registerKlingTool(tools);
+  registerLumaTool(tools);
+  registerSunoTool(tools);
+  registerUdioTool(tools);
+  registerTrellisTool(tools);
+  registerHailuoTool(tools);
+  registerVeo3Tool(tools);
+  registerSeedanceTool(tools);
+  registerFramePackTool(tools);
+}
+
+// Register Resources
+function registerResources(server: FastMCP<SessionAuth>) {
+  registerTaskResource(server);
 }
 
 // Tool Definitions
 
-function registerGeneralTool(server: FastMCP) {
+function registerGeneralTool(server: ToolServer) {
   server.addTool({
     name: "show_image",
-    description:
-      "Show an image with pixels less than 768*1024 due to Claude limitation",
+    description: `Show an image, images larger than ${previewMaxWidth}x${previewMaxHeight} are downscaled to fit`,
     parameters: z.object({
       url: z.string().url().describe("The URL of the image to show"),
     }),
     execute: async (args) => {
-      return imageContent({ url: args.url });
+      return {
+        content: [await previewImage(args.url, getRequestSignal())],
+      };
+    },
+  });
+  server.addTool({
+    name: "save_media",
+    description:
+      "Download images, videos, audio or models to the local output directory before their urls expire, returns the local paths",
+    parameters: z.object({
+      urls: z
+        .array(z.string().url())
+        .min(1)
+        .max(20)
+        .describe("The URLs of the media to save"),
+      taskId: z
+        .string()
+        .optional()
+        .describe(
+          "The ID of the task the media belong to, to save them next to its other outputs"
+        ),
+    }),
+    execute: async (args, { log }) => {
+      const files = await saveMedia(
+        args.taskId || "saved",
+        args.urls,
+        getRequestSignal(),
+        log
+      );
+      if (files.every((file) => !file.path)) {
+        throw new UserError(
+          `Could not save any media:\n${files
+            .map((file) => `${file.url}: ${file.error}`)
+            .join("\n")}`
+        );
+      }
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: formatSavedMedia(files),
+          },
+        ],
+        structuredContent: { files },
+      };
+    },
+  });
+}
+
+function registerTaskTool(server: ToolServer) {
+  server.addTool({
+    name: "get_task",
+    description:
+      "Get the status of a task created with wait=false, returns the result if the task is completed",
+    parameters: z.object({
+      taskId: z.string().describe("The ID of the task to get"),
+      preview: previewParameter(),
+    }),
+    execute: async (args, { log }) => {
+      if (!args.taskId) {
+        throw new UserError("Task ID is required");
+      }
+
+      const task = await getTask(
+        args.taskId,
+        getRequestApiKey(),
+        getRequestSignal()
+      );
+      if (task.status === "completed") {
+        const formatResult = resolveTaskFormatter(task.model, task.task_type);
+        return completeTask(
+          {
+            taskId: args.taskId,
+            model: task.model,
+            taskType: task.task_type,
+            usage: task.meta?.usage?.consume || "unknown",
+            output: task.output,
+          },
+          formatResult,
+          log,
+          args.preview
+        );
+      }
+      if (task.status === "failed") {
+        throw new UserError(
+          `TaskId: ${args.taskId}, Generation failed: ${task.error?.message || "Unknown error"}`
+        );
+      }
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: formatTaskStatus(task),
+          },
+        ],
+        structuredContent: taskStatusOutput(task),
+      };
+    },
+  });
+  server.addTool({
+    name: "wait_for_task",
+    description:
+      "Wait for a task created with wait=false to complete, returns the current status if it is still running after the timeout",
+    parameters: z.object({
+      taskId: z.string().describe("The ID of the task to wait for"),
+      timeout: z
+        .number()
+        .pipe(z.number().min(5).max(1200))
+        .optional()
+        .default(60)
+        .describe(
+          "The maximum time to wait in seconds, must be between 5 and 1200, defaults to 60"
+        ),
+      preview: previewParameter(),
+    }),
+    execute: async (args, { log, reportProgress }) => {
+      if (!args.taskId) {
+        throw new UserError("Task ID is required");
+      }
+
+      try {
+        const result = await getTaskResult(
+          log,
+          reportProgress,
+          args.taskId,
+          getRequestApiKey(),
+          10, // the model of the task is not known, poll at least every 10 seconds
+          args.timeout,
+          getRequestSignal()
+        );
+        const formatResult = resolveTaskFormatter(
+          result.model,
+          result.taskType
+        );
+        return completeTask(result, formatResult, log, args.preview);
+      } catch (error) {
+        if (!(error instanceof TaskTimeoutError)) {
+          throw error;
+        }
+        const task = await getTask(
+          args.taskId,
+          getRequestApiKey(),
+          getRequestSignal()
+        );
+        return {
+          content: [
+            {
+              type: "text",
+              text: `${formatTaskStatus(task)}\nTask is still running, call wait_for_task again to keep waiting`,
+            },
+          ],
+          structuredContent: taskStatusOutput(task),
+        };
+      }
+    },
+  });
+  server.addTool({
+    name: "cancel_task",
+    description:
+      "Cancel a running task, only tasks that have not started processing can be cancelled",
+    parameters: z.object({
+      taskId: z.string().describe("The ID of the task to cancel"),
+    }),
+    execute: async (args, { log }) => {
+      if (!args.taskId) {
+        throw new UserError("Task ID is required");
+      }
+
+      const { cancelled, message } = await cancelTask(
+        args.taskId,
+        getRequestApiKey(),
+        getRequestSignal()
+      );
+      log.info(`Task ${args.taskId} cancellation: ${message}`);
+      return {
+        content: [
+          {
+            type: "text",
+            text: cancelled
+              ? `TaskId: ${args.taskId}\nTask cancelled successfully!`
+              : `TaskId: ${args.taskId}\nTask could not be cancelled: ${message}`,
+          },
+        ],
+        structuredContent: { taskId: args.taskId, cancelled, message },
+      };
+    },
+  });
+  server.addTool({
+    name: "list_tasks",
+    description:
+      "List tasks recorded in the local task ledger, newest first, with their status and output urls",
+    parameters: z.object({
+      toolName: z
+        .string()
+        .optional()
+        .describe("Only list tasks created by this tool, e.g. 'generate_image'"),
+      status: z
+        .enum(["pending", "processing", "in_progress", "completed", "failed"])
+        .optional()
+        .describe("Only list tasks with this status"),
+      since: z
+        .string()
+        .refine((val) => !isNaN(Date.parse(val)), "Invalid date")
+        .optional()
+        .describe("Only list tasks created at or after this date, e.g. '2025-01-31'"),
+      until: z
+        .string()
+        .refine((val) => !isNaN(Date.parse(val)), "Invalid date")
+        .optional()
+        .describe("Only list tasks created before this date, e.g. '2025-02-01'"),
+      limit: z
+        .number()
+        .pipe(z.number().int().min(1).max(100))
+        .optional()
+        .default(20)
+        .describe("The maximum number of tasks to list, defaults to 20"),
+    }),
+    execute: async (args) => {
+      const records = await taskLedger.list({
+        owner: apiKeyOwner(getRequestApiKey()),
+        toolName: args.toolName,
+        status: args.status,
+        since: args.since ? new Date(args.since) : undefined,
+        until: args.until ? new Date(args.until) : undefined,
+      });
+
+      const structuredContent = {
+        total: records.length,
+        tasks: records.slice(0, args.limit),
+      };
+      if (records.length === 0) {
+        return {
+          content: [{ type: "text", text: "No tasks found" }],
+          structuredContent,
+        };
+      }
+
+      let content: Content[] = [];
+      content.push({
+        type: "text",
+        text: `Found ${records.length} tasks${
+          records.length > args.limit ? `, showing the latest ${args.limit}` : ""
+        }`,
+      });
+      for (const record of records.slice(0, args.limit)) {
+        content.push({
+          type: "text",
+          text: formatTaskRecord(record),
+        });
+      }
+      return {
+        content,
+        structuredContent,
+      };
+    },
+  });
+  server.addTool({
+    name: "get_task_record",
+    description:
+      "Get the full local record of a task, including its request, status history, usage, output urls and error",
+    parameters: z.object({
+      taskId: z.string().describe("The ID of the task to get the record of"),
+    }),
+    execute: async (args) => {
+      if (!args.taskId) {
+        throw new UserError("Task ID is required");
+      }
+
+      const record = await taskLedger.get(
+        args.taskId,
+        apiKeyOwner(getRequestApiKey())
+      );
+      if (!record) {
+        throw new UserError(
+          `TaskId: ${args.taskId}, No record found in the task ledger`
+        );
+      }
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(record, null, 2),
+          },
+        ],
+        structuredContent: { ...record },
+      };
     },
   });
 }
 
 interface BaseConfig {
-  maxAttempts: number;
+  pollInterval: number; // longest wait between polls, in seconds
   timeout: number; // in seconds
 }
 
+// Media inputs are URLs, data: URIs, or local file paths when served over
+// stdio, see resolveMediaInput()
+function mediaInputParameter(description: string) {
+  return z
+    .string()
+    .min(1)
+    .refine(
+      (value) => !/^https?:/i.test(value) || z.string().url().safeParse(value).success,
+      "Invalid url"
+    )
+    .describe(`${description}, as a URL, a data: URI or a local file path`);
+}
+
+function previewParameter() {
+  return z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe(
+      `Whether to include the generated images in the result, downscaled to fit ${previewMaxWidth}x${previewMaxHeight}, defaults to false`
+    );
+}
+
+function waitParameter() {
+  return z
+    .boolean()
+    .optional()
+    .default(true)
+    .describe(
+      "Whether to wait for the task to complete, defaults to true. Set to false to return the task ID right away and fetch the result later with get_task or wait_for_task"
+    );
+}
+
 const IMAGE_TOOL_CONFIG: Record<string, BaseConfig> = {
-  faceswap: { maxAttempts: 30, timeout: 60 },
-  rmbg: { maxAttempts: 30, timeout: 60 },
-  segment: { maxAttempts: 30, timeout: 60 },
-  upscale: { maxAttempts: 30, timeout: 60 },
+  faceswap: { pollInterval: 2, timeout: 60 },
+  rmbg: { pollInterval: 2, timeout: 60 },
+  segment: { pollInterval: 2, timeout: 60 },
+  upscale: { pollInterval: 2, timeout: 60 },
 };
 
-function registerImageTool(server: FastMCP) {
+function registerImageTool(server: ToolServer) {
   server.addTool({
     name: "image_faceswap",
     description: "Faceswap an image",
     parameters: z.object({
-      swapImage: z.string().url().describe("The URL of the image to swap"),
-      targetImage: z.string().url().describe("The URL of the target image"),
+      swapImage: mediaInputParameter("The image to swap"),
+      targetImage: mediaInputParameter("The target image"),
+      wait: waitParameter(),
+      preview: previewParameter(),
     }),
     execute: async (args, { log, reportProgress }) => {
       // Create image generation task
@@ -118,43 +561,44 @@ function registerImageTool(server: FastMCP) {
       }
       const config = IMAGE_TOOL_CONFIG["faceswap"];
 
+      const swapImage = await resolveMediaInput(
+        "swapImage",
+        args.swapImage,
+        MEDIA_INPUT_LIMITS.image
+      );
+      const targetImage = await resolveMediaInput(
+        "targetImage",
+        args.targetImage,
+        MEDIA_INPUT_LIMITS.image
+      );
+
       const requestBody = JSON.stringify({
         model: "Qubico/image-toolkit",
         task_type: "face-swap",
         input: {
-          swap_image: args.swapImage,
-          target_image: args.targetImage,
+          swap_image: swapImage,
+          target_image: targetImage,
         },
       });
 
-      const { taskId, usage, output } = await handleTask(
+      return await handleTask(
         log,
         reportProgress,
         requestBody,
-        config
+        config,
+        args.wait,
+        formatImageResult,
+        args.preview
       );
-
-      const urls = parseImageOutput(taskId, output, log);
-      return {
-        content: [
-          {
-            type: "text",
-            text: `TaskId: ${taskId}\nImage generated successfully!\nUsage: ${usage} tokens\nImage urls:\n${urls.join(
-              "\n"
-            )}`,
-          },
-        ],
-      };
     },
   });
   server.addTool({
     name: "image_rmbg",
     description: "Remove the background of an image",
     parameters: z.object({
-      image: z
-        .string()
-        .url()
-        .describe("The URL of the image to remove the background"),
+      image: mediaInputParameter("The image to remove the background"),
+      wait: waitParameter(),
+      preview: previewParameter(),
     }),
     execute: async (args, { log, reportProgress }) => {
       // Create image generation task
@@ -163,39 +607,36 @@ function registerImageTool(server: FastMCP) {
       }
       const config = IMAGE_TOOL_CONFIG["rmbg"];
 
+      const image = await resolveMediaInput(
+        "image",
+        args.image,
+        MEDIA_INPUT_LIMITS.image
+      );
+
       const requestBody = JSON.stringify({
         model: "Qubico/image-toolkit",
         task_type: "background-remove",
         input: {
-          image: args.image,
+          image,
         },
       });
 
-      const { taskId, usage, output } = await handleTask(
+      return await handleTask(
         log,
         reportProgress,
         requestBody,
-        config
+        config,
+        args.wait,
+        formatImageResult,
+        args.preview
       );
-
-      const urls = parseImageOutput(taskId, output, log);
-      return {
-        content: [
-          {
-            type: "text",
-            text: `TaskId: ${taskId}\nImage generated successfully!\nUsage: ${usage} tokens\nImage urls:\n${urls.join(
-              "\n"
-            )}`,
-          },
-        ],
-      };
     },
   });
   server.addTool({
     name: "image_segment",
     description: "Segment an image",
     parameters: z.object({
-      image: z.string().url().describe("The URL of the image to segment"),
+      image: mediaInputParameter("The image to segment"),
       prompt: z.string().describe("The prompt to segment the image"),
       negativePrompt: z
         .string()
@@ -206,6 +647,8 @@ function registerImageTool(server: FastMCP) {
         .optional()
         .default(-15)
         .describe("The factor to segment the image"),
+      wait: waitParameter(),
+      preview: previewParameter(),
     }),
     execute: async (args, { log, reportProgress }) => {
       // Create image generation task
@@ -214,42 +657,39 @@ function registerImageTool(server: FastMCP) {
       }
       const config = IMAGE_TOOL_CONFIG["segment"];
 
+      const image = await resolveMediaInput(
+        "image",
+        args.image,
+        MEDIA_INPUT_LIMITS.image
+      );
+
       const requestBody = JSON.stringify({
         model: "Qubico/image-toolkit",
         task_type: "segment",
         input: {
-          image: args.image,
+          image,
           prompt: args.prompt,
           negative_prompt: args.negativePrompt,
           segment_factor: args.segmentFactor,
         },
       });
 
-      const { taskId, usage, output } = await handleTask(
+      return await handleTask(
         log,
         reportProgress,
         requestBody,
-        config
+        config,
+        args.wait,
+        formatImageResult,
+        args.preview
       );
-
-      const urls = parseImageOutput(taskId, output, log);
-      return {
-        content: [
-          {
-            type: "text",
-            text: `TaskId: ${taskId}\nImage generated successfully!\nUsage: ${usage} tokens\nImage urls:\n${urls.join(
-              "\n"
-            )}`,
-          },
-        ],
-      };
     },
   });
   server.addTool({
     name: "image_upscale",
     description: "Upscale an image to a higher resolution",
     parameters: z.object({
-      image: z.string().url().describe("The URL of the image to upscale"),
+      image: mediaInputParameter("The image to upscale"),
       scale: z
         .number()
         .pipe(z.number().min(2).max(10))
@@ -261,6 +701,8 @@ function registerImageTool(server: FastMCP) {
         .optional()
         .default(false)
         .describe("Whether to enhance the face of the image"),
+      wait: waitParameter(),
+      preview: previewParameter(),
     }),
     execute: async (args, { log, reportProgress }) => {
       // Create image generation task
@@ -269,53 +711,48 @@ function registerImageTool(server: FastMCP) {
       }
       const config = IMAGE_TOOL_CONFIG["upscale"];
 
+      const image = await resolveMediaInput(
+        "image",
+        args.image,
+        MEDIA_INPUT_LIMITS.image
+      );
+
       const requestBody = JSON.stringify({
         model: "Qubico/image-toolkit",
         task_type: "upscale",
         input: {
-          image: args.image,
+          image,
           scale: args.scale,
           face_enhance: args.faceEnhance,
         },
       });
 
-      const { taskId, usage, output } = await handleTask(
+      return await handleTask(
         log,
         reportProgress,
         requestBody,
-        config
+        config,
+        args.wait,
+        formatImageResult,
+        args.preview
       );
-
-      const urls = parseImageOutput(taskId, output, log);
-      return {
-        content: [
-          {
-            type: "text",
-            text: `TaskId: ${taskId}\nImage generated successfully!\nUsage: ${usage} tokens\nImage urls:\n${urls.join(
-              "\n"
-            )}`,
-          },
-        ],
-      };
     },
   });
 }
 
 const VIDEO_TOOL_CONFIG: Record<string, BaseConfig> = {
-  faceswap: { maxAttempts: 30, timeout: 600 },
-  upscale: { maxAttempts: 30, timeout: 300 },
+  faceswap: { pollInterval: 15, timeout: 600 },
+  upscale: { pollInterval: 10, timeout: 300 },
 };
 
-function registerVideoTool(server: FastMCP) {
+function registerVideoTool(server: ToolServer) {
   server.addTool({
     name: "video_faceswap",
     description: "Faceswap a video",
     parameters: z.object({
-      swapImage: z.string().url().describe("The URL of the image to swap"),
-      targetVideo: z
-        .string()
-        .url()
-        .describe("The URL of the video to faceswap"),
+      swapImage: mediaInputParameter("The image to swap"),
+      targetVideo: mediaInputParameter("The video to faceswap"),
+      wait: waitParameter(),
     }),
     execute: async (args, { log, reportProgress }) => {
       // Create image generation task
@@ -324,38 +761,42 @@ function registerVideoTool(server: FastMCP) {
       }
       const config = VIDEO_TOOL_CONFIG["faceswap"];
 
+      const swapImage = await resolveMediaInput(
+        "swapImage",
+        args.swapImage,
+        MEDIA_INPUT_LIMITS.image
+      );
+      const targetVideo = await resolveMediaInput(
+        "targetVideo",
+        args.targetVideo,
+        MEDIA_INPUT_LIMITS.video
+      );
+
       const requestBody = JSON.stringify({
         model: "Qubico/video-toolkit",
         task_type: "face-swap",
         input: {
-          swap_image: args.swapImage,
-          target_video: args.targetVideo,
+          swap_image: swapImage,
+          target_video: targetVideo,
         },
       });
 
-      const { taskId, usage, output } = await handleTask(
+      return await handleTask(
         log,
         reportProgress,
         requestBody,
-        config
+        config,
+        args.wait,
+        formatVideoResult
       );
-
-      const url = parseVideoOutput(taskId, output, log);
-      return {
-        content: [
-          {
-            type: "text",
-            text: `TaskId: ${taskId}\nVideo generated successfully!\nUsage: ${usage} tokens\nVideo url:\n${url}`,
-          },
-        ],
-      };
     },
   });
   server.addTool({
     name: "video_upscale",
     description: "Upscale video resolution to 2x",
     parameters: z.object({
-      video: z.string().url().describe("The URL of the video to upscale"),
+      video: mediaInputParameter("The video to upscale"),
+      wait: waitParameter(),
     }),
     execute: async (args, { log, reportProgress }) => {
       // Create image generation task
@@ -364,30 +805,28 @@ function registerVideoTool(server: FastMCP) {
       }
       const config = VIDEO_TOOL_CONFIG["upscale"];
 
+      const video = await resolveMediaInput(
+        "video",
+        args.video,
+        MEDIA_INPUT_LIMITS.video
+      );
+
       const requestBody = JSON.stringify({
         model: "Qubico/video-toolkit",
         task_type: "upscale",
         input: {
-          video: args.video,
+          video,
         },
       });
 
-      const { taskId, usage, output } = await handleTask(
+      return await handleTask(
         log,
         reportProgress,
         requestBody,
-        config
+        config,
+        args.wait,
+        formatVideoResult
       );
-
-      const url = parseVideoOutput(taskId, output, log);
-      return {
-        content: [
-          {
-            type: "text",
-            text: `TaskId: ${taskId}\nVideo generated successfully!\nUsage: ${usage} tokens\nVideo url:\n${url}`,
-          },
-        ],
-      };
     },
   });
 }
@@ -398,32 +837,127 @@ interface FluxConfig extends BaseConfig {
 }
 
 const FLUX_MODEL_CONFIG: Record<string, FluxConfig> = {
-  schnell: { defaultSteps: 4, maxSteps: 10, maxAttempts: 30, timeout: 60 },
-  dev: { defaultSteps: 25, maxSteps: 40, maxAttempts: 30, timeout: 120 },
-  inpaint: { defaultSteps: 25, maxSteps: 40, maxAttempts: 30, timeout: 120 },
-  outpaint: { defaultSteps: 25, maxSteps: 40, maxAttempts: 30, timeout: 120 },
-  variation: { defaultSteps: 25, maxSteps: 40, maxAttempts: 30, timeout: 120 },
-  controlnet: { defaultSteps: 25, maxSteps: 40, maxAttempts: 30, timeout: 180 },
+  schnell: { defaultSteps: 4, maxSteps: 10, pollInterval: 2, timeout: 60 },
+  dev: { defaultSteps: 25, maxSteps: 40, pollInterval: 4, timeout: 120 },
+  inpaint: { defaultSteps: 25, maxSteps: 40, pollInterval: 4, timeout: 120 },
+  outpaint: { defaultSteps: 25, maxSteps: 40, pollInterval: 4, timeout: 120 },
+  variation: { defaultSteps: 25, maxSteps: 40, pollInterval: 4, timeout: 120 },
+  controlnet: { defaultSteps: 25, maxSteps: 40, pollInterval: 6, timeout: 180 },
 };
 
-function registerFluxTool(server: FastMCP) {
-  server.addTool({
-    name: "generate_image",
-    description: "Generate a image using Qubico Flux",
-    parameters: z.object({
-      prompt: z.string().describe("The prompt to generate an image from"),
-      negativePrompt: z
-        .string()
-        .optional()
-        .default("chaos, bad photo, low quality, low resolution")
-        .describe("The negative prompt to generate an image from"),
-      referenceImage: z
+const KONTEXT_MODEL_CONFIG: Record<string, BaseConfig> = {
+  pro: { pollInterval: 4, timeout: 180 },
+  max: { pollInterval: 4, timeout: 240 },
+};
+
+// LoRAs are stacked in order, each one a PiAPI built-in or a custom
+// .safetensors url
+function fluxLorasParameter() {
+  const builtIns = [
+    "mystic-realism",
+    "ob3d-isometric-3d-room",
+    "remes-abstract-poster-style",
+    "paper-quilling-and-layering-style",
+  ];
+  return z
+    .array(
+      z.object({
+        lora: z
+          .string()
+          .refine(
+            (lora) =>
+              builtIns.includes(lora) ||
+              z.string().url().startsWith("https://").safeParse(lora).success,
+            `Must be one of ${builtIns.join(", ")} or an https url`
+          )
+          .describe(
+            `A built-in lora, ${builtIns.map((lora) => `'${lora}'`).join(", ")}, or the https url of a custom lora file`
+          ),
+        strength: z
+          .number()
+          .min(0)
+          .max(2)
+          .optional()
+          .describe(
+            "How strongly the lora is applied, from 0 to 2, defaults to 1"
+          ),
+      })
+    )
+    .max(4)
+    .optional()
+    .describe("The loras to stack, switches to the 'dev' model");
+}
+
+// The single built-in lora taken before loras, kept for the existing calls
+function fluxLoraParameter() {
+  return z
+    .enum([
+      "",
+      "mystic-realism",
+      "ob3d-isometric-3d-room",
+      "remes-abstract-poster-style",
+      "paper-quilling-and-layering-style",
+    ])
+    .optional()
+    .describe("A single built-in lora at full strength, shorthand for loras");
+}
+
+function fluxSeedParameter() {
+  return z
+    .number()
+    .int()
+    .min(0)
+    .optional()
+    .describe("The seed, to reproduce an image, random if not provided");
+}
+
+function fluxBatchSizeParameter() {
+  return z
+    .number()
+    .int()
+    .min(1)
+    .max(4)
+    .optional()
+    .describe("The number of images to generate, defaults to 1");
+}
+
+function controlTypeParameter() {
+  return z
+    .enum(["depth", "canny", "hed", "openpose"])
+    .describe("The kind of control the image gives");
+}
+
+function fluxLoras(
+  loras: { lora: string; strength?: number }[] | undefined,
+  lora: string | undefined
+): { lora: string; strength?: number }[] {
+  if (lora && loras?.length) {
+    throw new UserError("Use either lora or loras, not both");
+  }
+  return lora ? [{ lora, strength: 1 }] : loras ?? [];
+}
+
+function fluxLoraSettings(loras: { lora: string; strength?: number }[]) {
+  return loras.map((lora) => ({
+    lora_type: lora.lora,
+    lora_strength: lora.strength,
+  }));
+}
+
+function registerFluxTool(server: ToolServer) {
+  server.addTool({
+    name: "generate_image",
+    description: "Generate a image using Qubico Flux",
+    parameters: z.object({
+      prompt: z.string().describe("The prompt to generate an image from"),
+      negativePrompt: z
         .string()
-        .url()
         .optional()
-        .describe(
-          "The reference image to generate an image from, must be a valid image url"
-        ),
+        .default("chaos, bad photo, low quality, low resolution")
+        .describe("The negative prompt to generate an image from"),
+      referenceImage: mediaInputParameter(
+        "The reference image to generate an image from"
+      ).optional(),
       width: z
         .union([z.string(), z.number()])
         .transform((val) => (typeof val === "string" ? parseInt(val) : val))
@@ -448,19 +982,10 @@ function registerFluxTool(server: FastMCP) {
         .optional()
         .default(0)
         .describe("The number of steps to generate the image"),
-      lora: z
-        .enum([
-          "",
-          "mystic-realism",
-          "ob3d-isometric-3d-room",
-          "remes-abstract-poster-style",
-          "paper-quilling-and-layering-style",
-        ])
-        .optional()
-        .default("")
-        .describe(
-          "The lora to use for image generation, only available for 'dev' model, defaults to ''"
-        ),
+      loras: fluxLorasParameter(),
+      lora: fluxLoraParameter(),
+      seed: fluxSeedParameter(),
+      batchSize: fluxBatchSizeParameter(),
       model: z
         .enum(["schnell", "dev"])
         .optional()
@@ -468,6 +993,8 @@ function registerFluxTool(server: FastMCP) {
         .describe(
           "The model to use for image generation, 'schnell' is faster and cheaper but less detailed, 'dev' is slower but more detailed"
         ),
+      wait: waitParameter(),
+      preview: previewParameter(),
     }),
     execute: async (args, { log, reportProgress }) => {
       // Create image generation task
@@ -478,23 +1005,29 @@ function registerFluxTool(server: FastMCP) {
       let steps = args.steps || config.defaultSteps;
       steps = Math.min(steps, config.maxSteps);
 
+      const referenceImage = await resolveMediaInput(
+        "referenceImage",
+        args.referenceImage,
+        MEDIA_INPUT_LIMITS.image
+      );
+
+      const loras = fluxLoras(args.loras, args.lora);
+
       let requestBody = "";
-      if (args.lora !== "") {
+      if (loras.length) {
         requestBody = JSON.stringify({
           model: "Qubico/flux1-dev-advanced",
-          task_type: args.referenceImage ? "img2img-lora" : "txt2img-lora",
+          task_type: referenceImage ? "img2img-lora" : "txt2img-lora",
           input: {
             prompt: args.prompt,
             negative_prompt: args.negativePrompt,
-            image: args.referenceImage,
+            image: referenceImage,
             width: args.width,
             height: args.height,
             steps: steps,
-            lora_settings: [
-              {
-                lora_type: args.lora,
-              },
-            ],
+            seed: args.seed,
+            batch_size: args.batchSize,
+            lora_settings: fluxLoraSettings(loras),
           },
         });
       } else {
@@ -503,36 +1036,29 @@ function registerFluxTool(server: FastMCP) {
             args.model === "schnell"
               ? "Qubico/flux1-schnell"
               : "Qubico/flux1-dev",
-          task_type: args.referenceImage ? "img2img" : "txt2img",
+          task_type: referenceImage ? "img2img" : "txt2img",
           input: {
             prompt: args.prompt,
             negative_prompt: args.negativePrompt,
-            image: args.referenceImage,
+            image: referenceImage,
             width: args.width,
             height: args.height,
             steps: steps,
+            seed: args.seed,
+            batch_size: args.batchSize,
           },
         });
       }
 
-      const { taskId, usage, output } = await handleTask(
+      return await handleTask(
         log,
         reportProgress,
         requestBody,
-        config
+        config,
+        args.wait,
+        formatImageResult,
+        args.preview
       );
-
-      const urls = parseImageOutput(taskId, output, log);
-      return {
-        content: [
-          {
-            type: "text",
-            text: `TaskId: ${taskId}\nImage generated successfully!\nUsage: ${usage} tokens\nImage urls:\n${urls.join(
-              "\n"
-            )}`,
-          },
-        ],
-      };
     },
   });
   server.addTool({
@@ -545,12 +1071,9 @@ function registerFluxTool(server: FastMCP) {
         .optional()
         .default("chaos, bad photo, low quality, low resolution")
         .describe("The negative prompt to modify an image from"),
-      referenceImage: z
-        .string()
-        .url()
-        .describe(
-          "The reference image to modify an image from, must be a valid image url"
-        ),
+      referenceImage: mediaInputParameter(
+        "The reference image to modify an image from"
+      ),
       paddingLeft: z
         .union([z.string(), z.number()])
         .transform((val) => (typeof val === "string" ? parseInt(val) : val))
@@ -588,6 +1111,41 @@ function registerFluxTool(server: FastMCP) {
       model: z
         .enum(["inpaint", "outpaint"])
         .describe("The model to use for image modification"),
+      mask: mediaInputParameter(
+        "The area to repaint, white or opaque on a black or transparent image, only available for inpaint"
+      ).optional(),
+      maskShapes: z
+        .array(
+          z.discriminatedUnion("type", [
+            z.object({
+              type: z.literal("rectangle"),
+              x: z.number(),
+              y: z.number(),
+              width: z.number().positive(),
+              height: z.number().positive(),
+            }),
+            z.object({
+              type: z.literal("polygon"),
+              points: z
+                .array(z.object({ x: z.number(), y: z.number() }))
+                .min(3),
+            }),
+          ])
+        )
+        .min(1)
+        .optional()
+        .describe(
+          "The areas to repaint, in pixels of the reference image from its top left corner, only available for inpaint"
+        ),
+      maskTaskId: z
+        .string()
+        .min(1)
+        .optional()
+        .describe(
+          "The TaskId of an image_segment task of the reference image, its segment is repainted, only available for inpaint"
+        ),
+      wait: waitParameter(),
+      preview: previewParameter(),
     }),
     execute: async (args, { log, reportProgress }) => {
       // Create image generation task
@@ -596,10 +1154,47 @@ function registerFluxTool(server: FastMCP) {
       } else if (!args.referenceImage) {
         throw new UserError("Reference image is required");
       }
+      const masks = [args.mask, args.maskShapes, args.maskTaskId].filter(Boolean);
+      if (masks.length > 0 && args.model !== "inpaint") {
+        throw new UserError(
+          "mask, maskShapes and maskTaskId are only available for inpaint"
+        );
+      }
+      if (masks.length > 1) {
+        throw new UserError(
+          "Only one of mask, maskShapes and maskTaskId can be used"
+        );
+      }
       const config = FLUX_MODEL_CONFIG[args.model];
       let steps = args.steps || config.defaultSteps;
       steps = Math.min(steps, config.maxSteps);
 
+      // Without a mask the reference image is expected to be cut out already
+      const referenceImage =
+        masks.length > 0
+          ? await uploadMedia(
+              "inpaint.png",
+              await cutInpaintArea(
+                await readMediaInput(
+                  "referenceImage",
+                  args.referenceImage,
+                  MEDIA_INPUT_LIMITS.image
+                ),
+                {
+                  image: args.mask,
+                  shapes: args.maskShapes,
+                  taskId: args.maskTaskId,
+                }
+              ),
+              getRequestApiKey(),
+              getRequestSignal()
+            )
+          : await resolveMediaInput(
+              "referenceImage",
+              args.referenceImage,
+              MEDIA_INPUT_LIMITS.image
+            );
+
       let requestBody = "";
       if (args.model === "inpaint") {
         requestBody = JSON.stringify({
@@ -608,7 +1203,7 @@ function registerFluxTool(server: FastMCP) {
           input: {
             prompt: args.prompt,
             negative_prompt: args.negativePrompt,
-            image: args.referenceImage,
+            image: referenceImage,
             steps: steps,
           },
         });
@@ -619,7 +1214,7 @@ function registerFluxTool(server: FastMCP) {
           input: {
             prompt: args.prompt,
             negative_prompt: args.negativePrompt,
-            image: args.referenceImage,
+            image: referenceImage,
             steps: steps,
             custom_settings: [
               {
@@ -634,24 +1229,15 @@ function registerFluxTool(server: FastMCP) {
         });
       }
 
-      const { taskId, usage, output } = await handleTask(
+      return await handleTask(
         log,
         reportProgress,
         requestBody,
-        config
+        config,
+        args.wait,
+        formatImageResult,
+        args.preview
       );
-
-      const urls = parseImageOutput(taskId, output, log);
-      return {
-        content: [
-          {
-            type: "text",
-            text: `TaskId: ${taskId}\nImage generated successfully!\nUsage: ${usage} tokens\nImage urls:\n${urls.join(
-              "\n"
-            )}`,
-          },
-        ],
-      };
     },
   });
   server.addTool({
@@ -664,12 +1250,9 @@ function registerFluxTool(server: FastMCP) {
         .optional()
         .default("chaos, bad photo, low quality, low resolution")
         .describe("The negative prompt to derive an image from"),
-      referenceImage: z
-        .string()
-        .url()
-        .describe(
-          "The reference image to derive an image from, must be a valid image url"
-        ),
+      referenceImage: mediaInputParameter(
+        "The reference image to derive an image from"
+      ),
       width: z
         .union([z.string(), z.number()])
         .transform((val) => (typeof val === "string" ? parseInt(val) : val))
@@ -694,6 +1277,8 @@ function registerFluxTool(server: FastMCP) {
         .optional()
         .default(0)
         .describe("The number of steps to generate the image"),
+      wait: waitParameter(),
+      preview: previewParameter(),
     }),
     execute: async (args, { log, reportProgress }) => {
       // Create image generation task
@@ -706,37 +1291,34 @@ function registerFluxTool(server: FastMCP) {
       let steps = args.steps || config.defaultSteps;
       steps = Math.min(steps, config.maxSteps);
 
+      const referenceImage = await resolveMediaInput(
+        "referenceImage",
+        args.referenceImage,
+        MEDIA_INPUT_LIMITS.image
+      );
+
       const requestBody = JSON.stringify({
         model: "Qubico/flux1-dev-advanced",
         task_type: "redux-variation",
         input: {
           prompt: args.prompt,
           negative_prompt: args.negativePrompt,
-          image: args.referenceImage,
+          image: referenceImage,
           width: args.width,
           height: args.height,
           steps: steps,
         },
       });
 
-      const { taskId, usage, output } = await handleTask(
+      return await handleTask(
         log,
         reportProgress,
         requestBody,
-        config
+        config,
+        args.wait,
+        formatImageResult,
+        args.preview
       );
-
-      const urls = parseImageOutput(taskId, output, log);
-      return {
-        content: [
-          {
-            type: "text",
-            text: `TaskId: ${taskId}\nImage generated successfully!\nUsage: ${usage} tokens\nImage urls:\n${urls.join(
-              "\n"
-            )}`,
-          },
-        ],
-      };
     },
   });
   server.addTool({
@@ -749,12 +1331,9 @@ function registerFluxTool(server: FastMCP) {
         .optional()
         .default("chaos, bad photo, low quality, low resolution")
         .describe("The negative prompt to generate an image from"),
-      referenceImage: z
-        .string()
-        .url()
-        .describe(
-          "The reference image to generate an image from, must be a valid image url"
-        ),
+      referenceImage: mediaInputParameter(
+        "The control image of controlType, to use a single controlnet"
+      ).optional(),
       width: z
         .union([z.string(), z.number()])
         .transform((val) => (typeof val === "string" ? parseInt(val) : val))
@@ -779,34 +1358,99 @@ function registerFluxTool(server: FastMCP) {
         .optional()
         .default(0)
         .describe("The number of steps to generate the image"),
-      lora: z
-        .enum([
-          "",
-          "mystic-realism",
-          "ob3d-isometric-3d-room",
-          "remes-abstract-poster-style",
-          "paper-quilling-and-layering-style",
-        ])
-        .optional()
-        .default("")
-        .describe("The lora to use for image generation"),
-      controlType: z
-        .enum(["depth", "canny", "hed", "openpose"])
+      loras: fluxLorasParameter().describe("The loras to stack"),
+      lora: fluxLoraParameter(),
+      controlType: controlTypeParameter()
         .optional()
         .default("depth")
-        .describe("The control type to use for image generation"),
+        .describe("The control type of referenceImage, defaults to 'depth'"),
+      controlNets: z
+        .array(
+          z.object({
+            controlType: controlTypeParameter(),
+            image: mediaInputParameter("The control image"),
+            strength: z
+              .number()
+              .min(0)
+              .max(1)
+              .optional()
+              .describe(
+                "How strongly the control applies, from 0 to 1, defaults to 1"
+              ),
+            start: z
+              .number()
+              .min(0)
+              .max(1)
+              .optional()
+              .describe(
+                "When the control starts to apply, as a fraction of the steps, defaults to 0"
+              ),
+            end: z
+              .number()
+              .min(0)
+              .max(1)
+              .optional()
+              .describe(
+                "When the control stops to apply, as a fraction of the steps, defaults to 1"
+              ),
+          })
+        )
+        .max(4)
+        .optional()
+        .describe(
+          "Several controlnets to combine, each with its own strength and range, instead of referenceImage"
+        ),
+      seed: fluxSeedParameter(),
+      batchSize: fluxBatchSizeParameter(),
+      wait: waitParameter(),
+      preview: previewParameter(),
     }),
     execute: async (args, { log, reportProgress }) => {
       // Create image generation task
       if (!args.prompt) {
         throw new UserError("Prompt is required");
-      } else if (!args.referenceImage) {
-        throw new UserError("Reference image is required");
+      } else if (!args.referenceImage === !args.controlNets?.length) {
+        throw new UserError(
+          "Either referenceImage or controlNets is required, but not both"
+        );
+      }
+      for (const [i, controlNet] of (args.controlNets ?? []).entries()) {
+        if ((controlNet.start ?? 0) >= (controlNet.end ?? 1)) {
+          throw new UserError(
+            `controlNets[${i}] must start before it ends, got ${controlNet.start ?? 0} to ${controlNet.end ?? 1}`
+          );
+        }
       }
+      const loras = fluxLoras(args.loras, args.lora);
       const config = FLUX_MODEL_CONFIG["controlnet"];
       let steps = args.steps || config.defaultSteps;
       steps = Math.min(steps, config.maxSteps);
 
+      const controlNetSettings = [];
+      if (args.referenceImage) {
+        controlNetSettings.push({
+          control_type: args.controlType,
+          control_image: await resolveMediaInput(
+            "referenceImage",
+            args.referenceImage,
+            MEDIA_INPUT_LIMITS.image
+          ),
+        });
+      }
+      for (const [i, controlNet] of (args.controlNets ?? []).entries()) {
+        controlNetSettings.push({
+          control_type: controlNet.controlType,
+          control_image: await resolveMediaInput(
+            `controlNets[${i}].image`,
+            controlNet.image,
+            MEDIA_INPUT_LIMITS.image
+          ),
+          control_strength: controlNet.strength,
+          start_percent: controlNet.start,
+          end_percent: controlNet.end,
+        });
+      }
+
       const requestBody = JSON.stringify({
         model: "Qubico/flux1-dev-advanced",
         task_type: "controlnet-lora",
@@ -816,455 +1460,465 @@ function registerFluxTool(server: FastMCP) {
           width: args.width,
           height: args.height,
           steps: steps,
-          lora_settings: args.lora !== "" ? [{ lora_type: args.lora }] : [],
-          control_net_settings: [
-            {
-              control_type: args.controlType,
-              control_image: args.referenceImage,
-            },
-          ],
+          seed: args.seed,
+          batch_size: args.batchSize,
+          lora_settings: fluxLoraSettings(loras),
+          control_net_settings: controlNetSettings,
         },
       });
 
-      const { taskId, usage, output } = await handleTask(
+      return await handleTask(
         log,
         reportProgress,
         requestBody,
-        config
+        config,
+        args.wait,
+        formatImageResult,
+        args.preview
       );
-
-      const urls = parseImageOutput(taskId, output, log);
-      return {
-        content: [
-          {
-            type: "text",
-            text: `TaskId: ${taskId}\nImage generated successfully!\nUsage: ${usage} tokens\nImage urls:\n${urls.join(
-              "\n"
-            )}`,
-          },
-        ],
-      };
     },
   });
-}
-
-interface HunyuanConfig extends BaseConfig {
-  taskType: string;
-}
-
-const HUNYUAN_MODEL_CONFIG: Record<string, HunyuanConfig> = {
-  hunyuan: { maxAttempts: 60, timeout: 900, taskType: "txt2video" },
-  fastHunyuan: { maxAttempts: 60, timeout: 600, taskType: "fast-txt2video" },
-  hunyuanConcat: {
-    maxAttempts: 60,
-    timeout: 900,
-    taskType: "img2video-concat",
-  },
-  hunyuanReplace: {
-    maxAttempts: 60,
-    timeout: 900,
-    taskType: "img2video-replace",
-  },
-};
-
-function registerHunyuanTool(server: FastMCP) {
   server.addTool({
-    name: "generate_video_hunyuan",
-    description: "Generate a video using Qubico Hunyuan",
+    name: "edit_image",
+    description:
+      "Edit a image by instruction using Flux Kontext, e.g. 'make the jacket red' or 'remove the text'",
     parameters: z.object({
-      prompt: z.string().describe("The prompt to generate a video from"),
-      negativePrompt: z
-        .string()
-        .describe("The negative prompt to generate a video from")
-        .optional()
-        .default("chaos, bad video, low quality, low resolution"),
-      referenceImage: z
+      image: mediaInputParameter("The image to edit"),
+      instruction: z
         .string()
-        .url()
-        .optional()
-        .describe(
-          "The reference image to generate a video from, must be a valid image url"
-        ),
+        .describe("What to change in the image, the rest is kept as it is"),
       aspectRatio: z
-        .enum(["16:9", "1:1", "9:16"])
+        .enum(["21:9", "16:9", "4:3", "3:2", "1:1", "2:3", "3:4", "9:16", "9:21"])
         .optional()
-        .default("16:9")
         .describe(
-          "The aspect ratio of the video to generate, must be either '16:9', '1:1', or '9:16', defaults to '16:9'"
+          "The aspect ratio of the edited image, defaults to the one of the image"
         ),
+      seed: fluxSeedParameter(),
       model: z
-        .enum(["hunyuan", "fastHunyuan", "hunyuanConcat", "hunyuanReplace"])
+        .enum(["pro", "max"])
         .optional()
-        .default("hunyuan")
+        .default("pro")
         .describe(
-          "The model to use for video generation, 'hunyuan' is slower but more detailed, 'fastHunyuan' is faster but less detailed, both for txt2video. 'hunyuanReplace' sticks to reference image, and 'hunyuanConcat' allows for more creative movement, both for img2video"
+          "The Kontext model, 'max' follows instructions and renders text better but is slower and more expensive, defaults to 'pro'"
         ),
+      wait: waitParameter(),
+      preview: previewParameter(),
     }),
     execute: async (args, { log, reportProgress }) => {
-      // Create video generation task
-      if (!args.prompt) {
-        throw new UserError("Prompt is required");
-      }
-      if (
-        args.referenceImage &&
-        (args.model === "hunyuan" || args.model === "fastHunyuan")
-      ) {
-        log.warn(
-          "Reference image is not supported for 'hunyuan' or 'fastHunyuan' model, using 'hunyuanConcat' as default"
-        );
-        args.model = "hunyuanConcat";
+      if (!args.instruction) {
+        throw new UserError("Instruction is required");
       }
-      const config = HUNYUAN_MODEL_CONFIG[args.model];
+      const config = KONTEXT_MODEL_CONFIG[args.model];
+
+      const image = await resolveMediaInput(
+        "image",
+        args.image,
+        MEDIA_INPUT_LIMITS.image
+      );
 
       const requestBody = JSON.stringify({
-        model: "Qubico/hunyuan",
-        task_type: config.taskType,
+        model: `Qubico/flux1-kontext-${args.model}`,
+        task_type: "img2img",
         input: {
-          image: args.referenceImage,
-          prompt: args.prompt,
-          negative_prompt: args.negativePrompt,
+          prompt: args.instruction,
+          image,
           aspect_ratio: args.aspectRatio,
+          seed: args.seed,
         },
       });
-      const { taskId, usage, output } = await handleTask(
+
+      return await handleTask(
         log,
         reportProgress,
         requestBody,
-        config
+        config,
+        args.wait,
+        formatImageResult,
+        args.preview
       );
-
-      const url = parseVideoOutput(taskId, output, log);
-      return {
-        content: [
-          {
-            type: "text",
-            text: `TaskId: ${taskId}\nVideo generated successfully!\nUsage: ${usage} tokens\nVideo url:\n${url}`,
-          },
-        ],
-      };
     },
   });
 }
 
-const SKYREELS_MODEL_CONFIG: Record<string, BaseConfig> = {
-  skyreels: { maxAttempts: 30, timeout: 300 },
+const GPT4O_IMAGE_MODEL_CONFIG: Record<string, BaseConfig> = {
+  "gpt-4o-image": { pollInterval: 5, timeout: 300 },
 };
 
-function registerSkyreelsTool(server: FastMCP) {
+function registerGPT4oImageTool(server: ToolServer) {
   server.addTool({
-    name: "generate_video_skyreels",
-    description: "Generate a video using Qubico Skyreels",
+    name: "generate_image_gpt4o",
+    description:
+      "Generate or edit images using GPT-4o image, which renders legible text, e.g. posters, logos and banners",
     parameters: z.object({
-      prompt: z.string().describe("The prompt to generate a video from"),
-      negativePrompt: z
+      prompt: z
         .string()
-        .describe("The negative prompt to generate a video from")
+        .describe(
+          "The prompt to generate images from, with any text to render in quotes"
+        ),
+      referenceImages: z
+        .array(mediaInputParameter("A reference image"))
+        .max(4)
         .optional()
-        .default("chaos, bad video, low quality, low resolution"),
-      aspectRatio: z
-        .enum(["16:9", "1:1", "9:16"])
+        .describe(
+          "Up to 4 images to edit or combine, referred to in the prompt by their order, e.g. 'put the logo of the second image on the mug'"
+        ),
+      size: z
+        .enum(["auto", "1024x1024", "1536x1024", "1024x1536"])
         .optional()
-        .default("16:9")
+        .default("auto")
+        .describe("The size of the images, defaults to 'auto'"),
+      background: z
+        .enum(["auto", "transparent", "opaque"])
+        .optional()
+        .default("auto")
         .describe(
-          "The aspect ratio of the video to generate, must be either '16:9', '1:1', or '9:16', defaults to '16:9'"
+          "The background of the images, 'transparent' returns PNGs for logos and stickers, defaults to 'auto'"
         ),
-      referenceImage: z
-        .string()
-        .url()
+      quality: z
+        .enum(["low", "medium", "high"])
+        .optional()
+        .default("medium")
         .describe(
-          "The reference image to generate a video from, must be a valid image url, only available for 'wan14b' model"
+          "The quality of the images, 'high' renders small text best but is slower, defaults to 'medium'"
         ),
+      count: z
+        .number()
+        .int()
+        .min(1)
+        .max(4)
+        .optional()
+        .default(1)
+        .describe("The number of images to generate, up to 4, defaults to 1"),
+      wait: waitParameter(),
+      preview: previewParameter(),
     }),
     execute: async (args, { log, reportProgress }) => {
-      // Create video generation task
-      if (!args.prompt || !args.referenceImage) {
-        throw new UserError("Prompt and reference image are required");
+      if (!args.prompt) {
+        throw new UserError("Prompt is required");
       }
-      const config = SKYREELS_MODEL_CONFIG["skyreels"];
+      const config = GPT4O_IMAGE_MODEL_CONFIG["gpt-4o-image"];
+
+      const referenceImages = await resolveMediaInputs(
+        "referenceImages",
+        args.referenceImages,
+        MEDIA_INPUT_LIMITS.gpt4oImage
+      );
 
       const requestBody = JSON.stringify({
-        model: "Qubico/skyreels",
-        task_type: "img2video",
+        model: "gpt-4o-image",
+        task_type: referenceImages?.length ? "img2img" : "txt2img",
         input: {
           prompt: args.prompt,
-          negative_prompt: args.negativePrompt,
-          aspect_ratio: args.aspectRatio,
-          image: args.referenceImage,
+          image_urls: referenceImages,
+          size: args.size,
+          background: args.background,
+          quality: args.quality,
+          n: args.count,
         },
       });
-      const { taskId, usage, output } = await handleTask(
+
+      return await handleTask(
         log,
         reportProgress,
         requestBody,
-        config
+        config,
+        args.wait,
+        formatImageResult,
+        args.preview
       );
-
-      const url = parseVideoOutput(taskId, output, log);
-      return {
-        content: [
-          {
-            type: "text",
-            text: `TaskId: ${taskId}\nVideo generated successfully!\nUsage: ${usage} tokens\nVideo url:\n${url}`,
-          },
-        ],
-      };
     },
   });
 }
 
-const WAN_MODEL_CONFIG: Record<string, BaseConfig> = {
-  wan1_3b: { maxAttempts: 30, timeout: 300 },
-  wan14b: { maxAttempts: 60, timeout: 900 },
+// Keyed by rendering speed, slower ones render text more reliably
+const IDEOGRAM_MODEL_CONFIG: Record<string, BaseConfig> = {
+  turbo: { pollInterval: 2, timeout: 120 },
+  default: { pollInterval: 4, timeout: 180 },
+  quality: { pollInterval: 6, timeout: 300 },
 };
 
-function registerWanTool(server: FastMCP) {
+function registerIdeogramTool(server: ToolServer) {
   server.addTool({
-    name: "generate_video_wan",
-    description: "Generate a video using Qubico Wan",
+    name: "generate_image_ideogram",
+    description:
+      "Generate images using Ideogram, which excels at typography, e.g. posters, logos and social media graphics",
     parameters: z.object({
-      prompt: z.string().describe("The prompt to generate a video from"),
+      prompt: z
+        .string()
+        .describe(
+          "The prompt to generate images from, with any text to render in quotes"
+        ),
       negativePrompt: z
         .string()
-        .describe("The negative prompt to generate a video from")
         .optional()
-        .default("chaos, bad video, low quality, low resolution"),
+        .describe("What the images should not show"),
       aspectRatio: z
-        .enum(["16:9", "1:1", "9:16"])
+        .enum(["1:3", "1:2", "9:16", "2:3", "3:4", "1:1", "4:3", "3:2", "16:9", "2:1", "3:1"])
         .optional()
-        .default("16:9")
+        .default("1:1")
+        .describe("The aspect ratio of the images, defaults to '1:1'"),
+      styleType: z
+        .enum(["auto", "general", "realistic", "design"])
+        .optional()
+        .default("auto")
         .describe(
-          "The aspect ratio of the video to generate, must be either '16:9', '1:1', or '9:16', defaults to '16:9'"
+          "The style of the images, 'design' suits graphics with text, defaults to 'auto'"
         ),
-      referenceImage: z
-        .string()
-        .url()
+      styleReferences: z
+        .array(mediaInputParameter("A style reference image"))
+        .max(3)
+        .optional()
+        .describe("Up to 3 images whose style to follow"),
+      transparentBackground: z
+        .boolean()
         .optional()
+        .default(false)
         .describe(
-          "The reference image to generate a video from, must be a valid image url, only available for 'wan14b' model"
+          "Whether to generate PNGs with a transparent background, for logos and stickers"
         ),
-      model: z
-        .enum(["wan1_3b", "wan14b"])
+      magicPrompt: z
+        .boolean()
         .optional()
-        .default("wan1_3b")
+        .default(false)
         .describe(
-          "The model to use for video generation, must be either 'wan1_3b' or 'wan14b', 'wan1_3b' is faster but less detailed, 'wan14b' is slower but more detailed"
+          "Whether Ideogram rewrites the prompt with more details, may change the text to render"
         ),
-    }),
-    execute: async (args, { log, reportProgress }) => {
-      // Create video generation task
-      if (!args.prompt) {
-        throw new UserError("Prompt is required");
+      renderingSpeed: z
+        .enum(["turbo", "default", "quality"])
+        .optional()
+        .default("default")
+        .describe(
+          "The rendering speed, 'quality' renders text most reliably, defaults to 'default'"
+        ),
+      count: z
+        .number()
+        .int()
+        .min(1)
+        .max(4)
+        .optional()
+        .default(1)
+        .describe("The number of images to generate, up to 4, defaults to 1"),
+      seed: z
+        .number()
+        .int()
+        .min(0)
+        .optional()
+        .describe("The seed, to reproduce images, random if not provided"),
+      wait: waitParameter(),
+      preview: previewParameter(),
+    }),
+    execute: async (args, { log, reportProgress }) => {
+      if (!args.prompt) {
+        throw new UserError("Prompt is required");
       }
-      let taskType =
-        args.model === "wan1_3b" ? "txt2video-1.3b" : "txt2video-14b";
-      if (args.referenceImage) {
-        args.model = "wan14b";
-        taskType = "img2video-14b";
+      if (args.transparentBackground && args.styleType === "realistic") {
+        throw new UserError(
+          "A transparent background is not available with the realistic style"
+        );
       }
-      const config = WAN_MODEL_CONFIG[args.model];
+      const config = IDEOGRAM_MODEL_CONFIG[args.renderingSpeed];
+
+      const styleReferences = await resolveMediaInputs(
+        "styleReferences",
+        args.styleReferences,
+        MEDIA_INPUT_LIMITS.ideogram
+      );
 
       const requestBody = JSON.stringify({
-        model: "Qubico/wanx",
-        task_type: taskType,
+        model: "ideogram",
+        task_type: args.transparentBackground
+          ? "generate-transparent"
+          : "generate",
         input: {
           prompt: args.prompt,
           negative_prompt: args.negativePrompt,
           aspect_ratio: args.aspectRatio,
-          image: args.referenceImage,
+          style_type: args.styleType,
+          style_reference_images: styleReferences,
+          magic_prompt: args.magicPrompt ? "ON" : "OFF",
+          rendering_speed: args.renderingSpeed.toUpperCase(),
+          num_images: args.count,
+          seed: args.seed,
         },
       });
-      const { taskId, usage, output } = await handleTask(
+
+      return await handleTask(
         log,
         reportProgress,
         requestBody,
-        config
+        config,
+        args.wait,
+        formatImageResult,
+        args.preview
       );
-
-      const url = parseVideoOutput(taskId, output, log);
-      return {
-        content: [
-          {
-            type: "text",
-            text: `TaskId: ${taskId}\nVideo generated successfully!\nUsage: ${usage} tokens\nVideo url:\n${url}`,
-          },
-        ],
-      };
     },
   });
 }
 
-const MMAUDIO_MODEL_CONFIG: Record<string, BaseConfig> = {
-  mmaudio: { maxAttempts: 30, timeout: 600 },
+interface HunyuanConfig extends BaseConfig {
+  taskType: string;
+}
+
+const HUNYUAN_MODEL_CONFIG: Record<string, HunyuanConfig> = {
+  hunyuan: { pollInterval: 15, timeout: 900, taskType: "txt2video" },
+  fastHunyuan: { pollInterval: 10, timeout: 600, taskType: "fast-txt2video" },
+  hunyuanConcat: {
+    pollInterval: 15,
+    timeout: 900,
+    taskType: "img2video-concat",
+  },
+  hunyuanReplace: {
+    pollInterval: 15,
+    timeout: 900,
+    taskType: "img2video-replace",
+  },
 };
 
-function registerMMAudioTool(server: FastMCP) {
+function registerHunyuanTool(server: ToolServer) {
   server.addTool({
-    name: "generate_music_for_video",
-    description: "Generate a music for a video using Qubico MMAudio",
+    name: "generate_video_hunyuan",
+    description: "Generate a video using Qubico Hunyuan",
     parameters: z.object({
-      prompt: z.string().describe("The prompt to generate a music from"),
+      prompt: z.string().describe("The prompt to generate a video from"),
       negativePrompt: z
         .string()
-        .describe("The negative prompt to generate a music from")
+        .describe("The negative prompt to generate a video from")
         .optional()
-        .default("chaos, bad music"),
-      video: z.string().url().describe("The video to generate a music from"),
+        .default("chaos, bad video, low quality, low resolution"),
+      referenceImage: mediaInputParameter(
+        "The reference image to generate a video from"
+      ).optional(),
+      aspectRatio: z
+        .enum(["16:9", "1:1", "9:16"])
+        .optional()
+        .default("16:9")
+        .describe(
+          "The aspect ratio of the video to generate, must be either '16:9', '1:1', or '9:16', defaults to '16:9'"
+        ),
+      model: z
+        .enum(["hunyuan", "fastHunyuan", "hunyuanConcat", "hunyuanReplace"])
+        .optional()
+        .default("hunyuan")
+        .describe(
+          "The model to use for video generation, 'hunyuan' is slower but more detailed, 'fastHunyuan' is faster but less detailed, both for txt2video. 'hunyuanReplace' sticks to reference image, and 'hunyuanConcat' allows for more creative movement, both for img2video"
+        ),
+      wait: waitParameter(),
     }),
     execute: async (args, { log, reportProgress }) => {
       // Create video generation task
-      if (!args.prompt || !args.video) {
-        throw new UserError("Prompt and video are required");
+      if (!args.prompt) {
+        throw new UserError("Prompt is required");
       }
-      const config = MMAUDIO_MODEL_CONFIG["mmaudio"];
+      if (
+        args.referenceImage &&
+        (args.model === "hunyuan" || args.model === "fastHunyuan")
+      ) {
+        log.warn(
+          "Reference image is not supported for 'hunyuan' or 'fastHunyuan' model, using 'hunyuanConcat' as default"
+        );
+        args.model = "hunyuanConcat";
+      }
+      const config = HUNYUAN_MODEL_CONFIG[args.model];
+
+      const referenceImage = await resolveMediaInput(
+        "referenceImage",
+        args.referenceImage,
+        MEDIA_INPUT_LIMITS.image
+      );
 
       const requestBody = JSON.stringify({
-        model: "Qubico/mmaudio",
-        task_type: "video2audio",
+        model: "Qubico/hunyuan",
+        task_type: config.taskType,
         input: {
+          image: referenceImage,
           prompt: args.prompt,
           negative_prompt: args.negativePrompt,
-          video: args.video,
+          aspect_ratio: args.aspectRatio,
         },
       });
-      const { taskId, usage, output } = await handleTask(
+      return await handleTask(
         log,
         reportProgress,
         requestBody,
-        config
+        config,
+        args.wait,
+        formatVideoResult
       );
-
-      const url = parseAudioOutput(taskId, output, log);
-      return {
-        content: [
-          {
-            type: "text",
-            text: `TaskId: ${taskId}\nMusic generated successfully!\nUsage: ${usage} tokens\nMusic url:\n${url}`,
-          },
-        ],
-      };
     },
   });
 }
 
-const TTS_MODEL_CONFIG: Record<string, BaseConfig> = {
-  zeroShot: { maxAttempts: 30, timeout: 600 },
+const SKYREELS_MODEL_CONFIG: Record<string, BaseConfig> = {
+  skyreels: { pollInterval: 10, timeout: 300 },
 };
 
-function registerTTSTool(server: FastMCP) {
+function registerSkyreelsTool(server: ToolServer) {
   server.addTool({
-    name: "tts_zero_shot",
-    description: "Zero-shot TTS using Qubico f5-tts",
+    name: "generate_video_skyreels",
+    description: "Generate a video using Qubico Skyreels",
     parameters: z.object({
-      genText: z.string().describe("The text to generate a speech from"),
-      refText: z
+      prompt: z.string().describe("The prompt to generate a video from"),
+      negativePrompt: z
         .string()
+        .describe("The negative prompt to generate a video from")
+        .optional()
+        .default("chaos, bad video, low quality, low resolution"),
+      aspectRatio: z
+        .enum(["16:9", "1:1", "9:16"])
         .optional()
+        .default("16:9")
         .describe(
-          "The reference text to generate a speech from, auto detect from refAudio if not provided"
+          "The aspect ratio of the video to generate, must be either '16:9', '1:1', or '9:16', defaults to '16:9'"
         ),
-      refAudio: z
-        .string()
-        .url()
-        .describe("The reference audio to generate a speech from"),
+      referenceImage: mediaInputParameter(
+        "The reference image to generate a video from, only available for 'wan14b' model"
+      ),
+      wait: waitParameter(),
     }),
     execute: async (args, { log, reportProgress }) => {
       // Create video generation task
-      if (!args.genText || !args.refAudio) {
-        throw new UserError("genText and refAudio are required");
+      if (!args.prompt || !args.referenceImage) {
+        throw new UserError("Prompt and reference image are required");
       }
-      const config = TTS_MODEL_CONFIG["zeroShot"];
+      const config = SKYREELS_MODEL_CONFIG["skyreels"];
 
-      const requestBody = JSON.stringify({
-        model: "Qubico/tts",
-        task_type: "zero-shot",
-        input: {
-          gen_text: args.genText,
-          ref_text: args.refText,
-          ref_audio: args.refAudio,
-        },
-      });
-      const { taskId, usage, output } = await handleTask(
-        log,
-        reportProgress,
-        requestBody,
-        config
+      const referenceImage = await resolveMediaInput(
+        "referenceImage",
+        args.referenceImage,
+        MEDIA_INPUT_LIMITS.image
       );
 
-      const url = parseAudioOutput(taskId, output, log);
-      return {
-        content: [
-          {
-            type: "text",
-            text: `TaskId: ${taskId}\nSpeech generated successfully!\nUsage: ${usage} tokens\nSpeech url:\n${url}`,
-          },
-        ],
-      };
-    },
-  });
-}
-
-const MIDJOURNEY_MODEL_CONFIG: Record<string, BaseConfig> = {
-  imagine: { maxAttempts: 30, timeout: 900 },
-};
-
-function registerMidjourneyTool(server: FastMCP) {
-  server.addTool({
-    name: "midjourney_imagine",
-    description: "Generate a image using Midjourney Imagine",
-    parameters: z.object({
-      prompt: z.string().describe("The prompt to generate a image from"),
-      aspectRatio: z
-        .string()
-        .optional()
-        .describe("The aspect ratio of the image"),
-    }),
-    execute: async (args, { log, reportProgress }) => {
-      // Create video generation task
-      if (!args.prompt) {
-        throw new UserError("Prompt is required");
-      }
-      const config = MIDJOURNEY_MODEL_CONFIG["imagine"];
-
       const requestBody = JSON.stringify({
-        model: "midjourney",
-        task_type: "imagine",
+        model: "Qubico/skyreels",
+        task_type: "img2video",
         input: {
           prompt: args.prompt,
+          negative_prompt: args.negativePrompt,
           aspect_ratio: args.aspectRatio,
-          process_mode: "fast",
+          image: referenceImage,
         },
       });
-      const { taskId, usage, output } = await handleTask(
+      return await handleTask(
         log,
         reportProgress,
         requestBody,
-        config
+        config,
+        args.wait,
+        formatVideoResult
       );
-
-      const urls = parseImageOutput(taskId, output, log);
-      return {
-        content: [
-          {
-            type: "text",
-            text: `TaskId: ${taskId}\nImage generated successfully!\nUsage: ${usage} tokens\nImage urls:\n${urls.join(
-              "\n"
-            )}`,
-          },
-        ],
-      };
     },
   });
 }
 
-const KLING_MODEL_CONFIG: Record<string, BaseConfig> = {
-  video: { maxAttempts: 30, timeout: 900 },
-  effect: { maxAttempts: 30, timeout: 900 },
+const WAN_MODEL_CONFIG: Record<string, BaseConfig> = {
+  wan1_3b: { pollInterval: 10, timeout: 300 },
+  wan14b: { pollInterval: 15, timeout: 900 },
 };
 
-function registerKlingTool(server: FastMCP) {
+function registerWanTool(server: ToolServer) {
   server.addTool({
-    name: "generate_video_kling",
-    description: "Generate a video using Kling",
+    name: "generate_video_wan",
+    description: "Generate a video using Qubico Wan",
     parameters: z.object({
       prompt: z.string().describe("The prompt to generate a video from"),
       negativePrompt: z
@@ -1272,11 +1926,6 @@ function registerKlingTool(server: FastMCP) {
         .describe("The negative prompt to generate a video from")
         .optional()
         .default("chaos, bad video, low quality, low resolution"),
-      referenceImage: z
-        .string()
-        .url()
-        .optional()
-        .describe("The reference image to generate a video with"),
       aspectRatio: z
         .enum(["16:9", "1:1", "9:16"])
         .optional()
@@ -1284,542 +1933,4422 @@ function registerKlingTool(server: FastMCP) {
         .describe(
           "The aspect ratio of the video to generate, must be either '16:9', '1:1', or '9:16', defaults to '16:9'"
         ),
-      duration: z
-        .enum(["5s", "10s"])
+      referenceImage: mediaInputParameter(
+        "The reference image to generate a video from, only available for 'wan14b' model"
+      ).optional(),
+      model: z
+        .enum(["wan1_3b", "wan14b"])
         .optional()
-        .default("5s")
+        .default("wan1_3b")
         .describe(
-          "The duration of the video to generate, defaults to 5 seconds"
+          "The model to use for video generation, must be either 'wan1_3b' or 'wan14b', 'wan1_3b' is faster but less detailed, 'wan14b' is slower but more detailed"
         ),
+      wait: waitParameter(),
     }),
     execute: async (args, { log, reportProgress }) => {
       // Create video generation task
       if (!args.prompt) {
         throw new UserError("Prompt is required");
       }
-      const config = KLING_MODEL_CONFIG["video"];
+      let taskType =
+        args.model === "wan1_3b" ? "txt2video-1.3b" : "txt2video-14b";
+      if (args.referenceImage) {
+        args.model = "wan14b";
+        taskType = "img2video-14b";
+      }
+      const config = WAN_MODEL_CONFIG[args.model];
+
+      const referenceImage = await resolveMediaInput(
+        "referenceImage",
+        args.referenceImage,
+        MEDIA_INPUT_LIMITS.image
+      );
 
       const requestBody = JSON.stringify({
-        model: "kling",
-        task_type: "video_generation",
+        model: "Qubico/wanx",
+        task_type: taskType,
         input: {
           prompt: args.prompt,
           negative_prompt: args.negativePrompt,
           aspect_ratio: args.aspectRatio,
-          image_url: args.referenceImage,
-          duration: args.duration === "5s" ? 5 : 10,
+          image: referenceImage,
         },
       });
-      const { taskId, usage, output } = await handleTask(
+      return await handleTask(
         log,
         reportProgress,
         requestBody,
-        config
+        config,
+        args.wait,
+        formatVideoResult
       );
-
-      const urls = parseKlingOutput(taskId, output, log);
-      return {
-        content: [
-          {
-            type: "text",
-            text: `TaskId: ${taskId}\nVideo generated successfully!\nUsage: ${usage} tokens\nVideo urls:\n${urls.join(
-              "\n"
-            )}`,
-          },
-        ],
-      };
     },
   });
+}
+
+const MMAUDIO_MODEL_CONFIG: Record<string, BaseConfig> = {
+  mmaudio: { pollInterval: 10, timeout: 600 },
+};
+
+function registerMMAudioTool(server: ToolServer) {
   server.addTool({
-    name: "generate_video_effect_kling",
-    description: "Generate a video effect using Kling",
+    name: "generate_music_for_video",
+    description: "Generate a music for a video using Qubico MMAudio",
     parameters: z.object({
-      image: z
+      prompt: z.string().describe("The prompt to generate a music from"),
+      negativePrompt: z
         .string()
-        .url()
-        .describe("The reference image to generate a video effect from"),
-      effectName: z
-        .enum(["squish", "expansion"])
+        .describe("The negative prompt to generate a music from")
         .optional()
-        .default("squish")
-        .describe(
-          "The effect name to generate, must be either 'squish' or 'expansion', defaults to 'squish'"
-        ),
+        .default("chaos, bad music"),
+      video: mediaInputParameter("The video to generate a music from"),
+      wait: waitParameter(),
     }),
     execute: async (args, { log, reportProgress }) => {
       // Create video generation task
-      if (!args.image) {
-        throw new UserError("Image is required");
+      if (!args.prompt || !args.video) {
+        throw new UserError("Prompt and video are required");
       }
-      const config = KLING_MODEL_CONFIG["effect"];
+      const config = MMAUDIO_MODEL_CONFIG["mmaudio"];
+
+      const video = await resolveMediaInput(
+        "video",
+        args.video,
+        MEDIA_INPUT_LIMITS.video
+      );
 
       const requestBody = JSON.stringify({
-        model: "kling",
-        task_type: "effects",
+        model: "Qubico/mmaudio",
+        task_type: "video2audio",
         input: {
-          image_url: args.image,
-          effect: args.effectName,
+          prompt: args.prompt,
+          negative_prompt: args.negativePrompt,
+          video,
         },
       });
-      const { taskId, usage, output } = await handleTask(
+      return await handleTask(
         log,
         reportProgress,
         requestBody,
-        config
+        config,
+        args.wait,
+        formatMusicResult
       );
-
-      const urls = parseKlingOutput(taskId, output, log);
-      return {
-        content: [
-          {
-            type: "text",
-            text: `TaskId: ${taskId}\nVideo effect generated successfully!\nUsage: ${usage} tokens\nVideo urls:\n${urls.join(
-              "\n"
-            )}`,
-          },
-        ],
-      };
     },
   });
 }
 
-const SUNO_MODEL_CONFIG: Record<string, BaseConfig> = {
-  music: { maxAttempts: 30, timeout: 900 },
+const TTS_MODEL_CONFIG: Record<string, BaseConfig> = {
+  zeroShot: { pollInterval: 10, timeout: 600 },
 };
 
-function registerSunoTool(server: FastMCP) {
+function registerTTSTool(server: ToolServer) {
   server.addTool({
-    name: "generate_music_suno",
-    description: "Generate music using Suno",
+    name: "tts_zero_shot",
+    description: "Zero-shot TTS using Qubico f5-tts",
     parameters: z.object({
-      prompt: z
+      genText: z.string().describe("The text to generate a speech from"),
+      refText: z
         .string()
-        .max(3000)
-        .describe(
-          "The prompt to generate a music from, limited to 3000 characters"
-        ),
-      makeInstrumental: z
-        .boolean()
         .optional()
-        .default(false)
         .describe(
-          "Whether to make the music instrumental, defaults to false. Not compatible with title, tags, negativeTags"
+          "The reference text to generate a speech from, auto detect from refAudio if not provided"
         ),
-      title: z
-        .string()
-        .max(80)
-        .optional()
-        .describe("The title of the music, limited to 80 characters"),
-      tags: z
-        .string()
-        .max(200)
-        .optional()
-        .describe("The tags of the music, limited to 200 characters"),
-      negativeTags: z
-        .string()
-        .max(200)
-        .optional()
-        .describe("The negative tags of the music, limited to 200 characters"),
+      refAudio: mediaInputParameter(
+        "The reference audio to generate a speech from"
+      ),
+      wait: waitParameter(),
     }),
     execute: async (args, { log, reportProgress }) => {
       // Create video generation task
-      if (!args.prompt) {
-        throw new UserError("Prompt is required");
+      if (!args.genText || !args.refAudio) {
+        throw new UserError("genText and refAudio are required");
       }
-      const config = SUNO_MODEL_CONFIG["music"];
+      const config = TTS_MODEL_CONFIG["zeroShot"];
 
-      let requestBody = "";
-      if (args.title || args.tags || args.negativeTags) {
-        if (args.makeInstrumental) {
-          throw new UserError(
-            "makeInstrumental is not compatible with title, tags, negativeTags, please remove them if you want to make the music instrumental"
-          );
-        }
-        requestBody = JSON.stringify({
-          model: "music-s",
-          task_type: "generate_music_custom",
-          input: {
-            prompt: args.prompt,
-            title: args.title,
-            tags: args.tags,
-            negative_tags: args.negativeTags,
-          },
-        });
-      } else {
-        requestBody = JSON.stringify({
-          model: "music-s",
-          task_type: "generate_music",
-          input: {
-            prompt: args.prompt,
-            make_instrumental: args.makeInstrumental,
-          },
-        });
-      }
+      const refAudio = await resolveMediaInput(
+        "refAudio",
+        args.refAudio,
+        MEDIA_INPUT_LIMITS.audio
+      );
 
-      const { taskId, usage, output } = await handleTask(
+      const requestBody = JSON.stringify({
+        model: "Qubico/tts",
+        task_type: "zero-shot",
+        input: {
+          gen_text: args.genText,
+          ref_text: args.refText,
+          ref_audio: refAudio,
+        },
+      });
+      return await handleTask(
         log,
         reportProgress,
         requestBody,
-        config
+        config,
+        args.wait,
+        formatSpeechResult
       );
-
-      const clips = parseSunoMusicOutput(taskId, output, log);
-      let content: Content[] = [];
-      content.push({
-        type: "text",
-        text: `TaskId: ${taskId}\nMusic generated successfully!\nUsage: ${usage} tokens`,
-      });
-      for (const clip of clips) {
-        content.push({
-          type: "text",
-          text: `Audio url: ${clip.audio_url}\nImage url: ${clip.image_url}`,
-        });
-      }
-      return {
-        content,
-      };
     },
   });
 }
 
-const LUMA_MODEL_CONFIG: Record<string, BaseConfig> = {
-  luma: { maxAttempts: 30, timeout: 900 },
+const MIDJOURNEY_MODEL_CONFIG: Record<string, BaseConfig> = {
+  imagine: { pollInterval: 10, timeout: 900 },
+  upscale: { pollInterval: 5, timeout: 300 },
+  variation: { pollInterval: 10, timeout: 900 },
+  reroll: { pollInterval: 10, timeout: 900 },
+  pan: { pollInterval: 10, timeout: 900 },
+  outpaint: { pollInterval: 10, timeout: 900 },
+  inpaint: { pollInterval: 10, timeout: 900 },
+  describe: { pollInterval: 5, timeout: 300 },
+  blend: { pollInterval: 10, timeout: 900 },
+};
+
+function parentTaskIdParameter(action: string) {
+  return z
+    .string()
+    .describe(`The ID of the Midjourney task to ${action}`);
+}
+
+function imageIndexParameter(action: string) {
+  return z
+    .number()
+    .int()
+    .min(1)
+    .max(4)
+    .describe(
+      `The image of the grid to ${action}, 1 to 4 from top left to bottom right`
+    );
+}
+
+function remixPromptParameter() {
+  return z
+    .string()
+    .optional()
+    .describe("A new prompt to use instead of the one of the parent task");
+}
+
+function midjourneyAspectRatioParameter() {
+  return z
+    .string()
+    .regex(/^\d+:\d+$/, "Aspect ratio must be like '16:9'")
+    .optional()
+    .describe("The aspect ratio of the images, e.g. '16:9', --ar");
+}
+
+function processModeParameter() {
+  return z
+    .enum(["relax", "fast", "turbo"])
+    .optional()
+    .default("fast")
+    .describe(
+      "The Midjourney speed, 'relax' is the cheapest but slowest, 'turbo' the fastest and most expensive, defaults to 'fast'"
+    );
+}
+
+interface MidjourneyPromptParameters {
+  version?: string;
+  stylize?: number;
+  chaos?: number;
+  weird?: number;
+  seed?: number;
+  quality?: number;
+  tile?: boolean;
+  raw?: boolean;
+  exclude?: string[];
+  characterReferences?: string[];
+  characterWeight?: number;
+  styleReferences?: string[];
+  styleWeight?: number;
+}
+
+// The prompt flags each parameter sets, with their aliases
+const MIDJOURNEY_PARAMETER_FLAGS: Record<string, string[]> = {
+  aspectRatio: ["ar", "aspect"],
+  version: ["v", "version", "niji"],
+  stylize: ["s", "stylize"],
+  chaos: ["c", "chaos"],
+  weird: ["w", "weird"],
+  seed: ["seed"],
+  quality: ["q", "quality"],
+  tile: ["tile"],
+  raw: ["style"],
+  exclude: ["no"],
+  characterReferences: ["cref"],
+  characterWeight: ["cw"],
+  styleReferences: ["sref"],
+  styleWeight: ["sw"],
 };
 
-function registerLumaTool(server: FastMCP) {
+// Flags typed in the prompt would conflict with the ones compiled from the
+// parameters, or with each other when given twice
+function checkMidjourneyPromptFlags(
+  prompt: string,
+  parameters: Record<string, unknown>
+) {
+  const typedFlags = [...prompt.matchAll(/(?:^|\s)--([a-z]+)/gi)].map((match) =>
+    match[1].toLowerCase()
+  );
+  for (const [name, flags] of Object.entries(MIDJOURNEY_PARAMETER_FLAGS)) {
+    const typed = typedFlags.filter((flag) => flags.includes(flag));
+    const value = parameters[name];
+    if (typed.length > 0 && value !== undefined && value !== false) {
+      throw new UserError(
+        `The prompt sets --${typed[0]}, which conflicts with the ${name} parameter, remove one of them`
+      );
+    }
+    if (typed.length > 1) {
+      throw new UserError(
+        `The prompt sets ${typed.map((flag) => `--${flag}`).join(" and ")}, which conflict with each other`
+      );
+    }
+  }
+}
+
+function compileMidjourneyPrompt(
+  prompt: string,
+  parameters: MidjourneyPromptParameters
+): string {
+  const flags: string[] = [];
+  if (parameters.version) {
+    flags.push(
+      parameters.version.startsWith("niji")
+        ? `--${parameters.version}`
+        : `--v ${parameters.version}`
+    );
+  }
+  if (parameters.stylize !== undefined) {
+    flags.push(`--stylize ${parameters.stylize}`);
+  }
+  if (parameters.chaos !== undefined) {
+    flags.push(`--chaos ${parameters.chaos}`);
+  }
+  if (parameters.weird !== undefined) {
+    flags.push(`--weird ${parameters.weird}`);
+  }
+  if (parameters.seed !== undefined) {
+    flags.push(`--seed ${parameters.seed}`);
+  }
+  if (parameters.quality !== undefined) {
+    flags.push(`--quality ${parameters.quality}`);
+  }
+  if (parameters.tile) {
+    flags.push("--tile");
+  }
+  if (parameters.raw) {
+    flags.push("--style raw");
+  }
+  if (parameters.exclude?.length) {
+    flags.push(`--no ${parameters.exclude.join(", ")}`);
+  }
+  if (parameters.characterReferences?.length) {
+    flags.push(`--cref ${parameters.characterReferences.join(" ")}`);
+  }
+  if (parameters.characterWeight !== undefined) {
+    flags.push(`--cw ${parameters.characterWeight}`);
+  }
+  if (parameters.styleReferences?.length) {
+    flags.push(`--sref ${parameters.styleReferences.join(" ")}`);
+  }
+  if (parameters.styleWeight !== undefined) {
+    flags.push(`--sw ${parameters.styleWeight}`);
+  }
+  return [prompt.trim(), ...flags].join(" ");
+}
+
+function registerMidjourneyTool(server: ToolServer) {
   server.addTool({
-    name: "generate_video_luma",
-    description: "Generate a video using Luma",
+    name: "midjourney_imagine",
+    description:
+      "Generate a image using Midjourney Imagine, the parameters are added to the prompt as Midjourney flags",
     parameters: z.object({
-      prompt: z.string().describe("The prompt to generate a video from"),
-      duration: z
-        .enum(["5s", "10s"])
+      prompt: z
+        .string()
+        .describe(
+          "The prompt to generate a image from, without the flags set by the other parameters"
+        ),
+      aspectRatio: midjourneyAspectRatioParameter(),
+      version: z
+        .enum(["5.2", "6", "6.1", "7", "niji 5", "niji 6"])
+        .optional()
+        .describe("The Midjourney or Niji model version, --v or --niji"),
+      stylize: z
+        .number()
+        .int()
+        .min(0)
+        .max(1000)
+        .optional()
+        .describe("How strongly the Midjourney aesthetic is applied, 0 to 1000, --stylize"),
+      chaos: z
+        .number()
+        .int()
+        .min(0)
+        .max(100)
+        .optional()
+        .describe("How varied the 4 images are, 0 to 100, --chaos"),
+      weird: z
+        .number()
+        .int()
+        .min(0)
+        .max(3000)
+        .optional()
+        .describe("How unconventional the images are, 0 to 3000, --weird"),
+      seed: z
+        .number()
+        .int()
+        .min(0)
+        .max(4294967295)
+        .optional()
+        .describe("The seed, to reproduce a grid, --seed"),
+      quality: z
+        .union([z.literal(0.25), z.literal(0.5), z.literal(1), z.literal(2)])
+        .optional()
+        .describe("The rendering quality, 0.25, 0.5, 1 or 2, --quality"),
+      tile: z
+        .boolean()
+        .optional()
+        .describe("Whether to generate seamless tiles, --tile"),
+      raw: z
+        .boolean()
+        .optional()
+        .describe("Whether to use the raw style, with less Midjourney embellishment, --style raw"),
+      exclude: z
+        .array(z.string().min(1))
+        .optional()
+        .describe("Things to keep out of the images, --no"),
+      characterReferences: z
+        .array(mediaInputParameter("An image of the character to keep"))
+        .max(5)
+        .optional()
+        .describe("Images of a character to keep consistent, --cref"),
+      characterWeight: z
+        .number()
+        .int()
+        .min(0)
+        .max(100)
         .optional()
-        .default("5s")
         .describe(
-          "The duration of the video, defaults to 5s. If keyFrame is provided, only 5s is supported"
+          "How much of the character references to keep, 0 for the face only to 100 for the face, hair and clothes, --cw"
         ),
-      aspectRatio: z
-        .string()
+      styleReferences: z
+        .array(mediaInputParameter("An image of the style to use"))
+        .max(5)
         .optional()
-        .describe("The aspect ratio of the video, defaults to 16:9"),
-      keyFrame: z
-        .string()
-        .url()
+        .describe("Images of a style to use, --sref"),
+      styleWeight: z
+        .number()
+        .int()
+        .min(0)
+        .max(1000)
         .optional()
-        .describe("The key frame to generate a video with"),
+        .describe("How strongly the style references are applied, 0 to 1000, --sw"),
+      processMode: processModeParameter(),
+      wait: waitParameter(),
+      preview: previewParameter(),
     }),
     execute: async (args, { log, reportProgress }) => {
       // Create video generation task
       if (!args.prompt) {
         throw new UserError("Prompt is required");
       }
-      const config = LUMA_MODEL_CONFIG["luma"];
+      if (args.characterWeight !== undefined && !args.characterReferences?.length) {
+        throw new UserError("characterWeight requires characterReferences");
+      }
+      if (args.styleWeight !== undefined && !args.styleReferences?.length) {
+        throw new UserError("styleWeight requires styleReferences");
+      }
+      checkMidjourneyPromptFlags(args.prompt, args);
+      const config = MIDJOURNEY_MODEL_CONFIG["imagine"];
+
+      const characterReferences = await resolveMediaInputs(
+        "characterReferences",
+        args.characterReferences,
+        MEDIA_INPUT_LIMITS.midjourney
+      );
+      const styleReferences = await resolveMediaInputs(
+        "styleReferences",
+        args.styleReferences,
+        MEDIA_INPUT_LIMITS.midjourney
+      );
 
       const requestBody = JSON.stringify({
-        model: "luma",
-        task_type: "video_generation",
+        model: "midjourney",
+        task_type: "imagine",
         input: {
-          prompt: args.prompt,
-          duration: args.duration === "5s" ? 5 : 10,
+          prompt: compileMidjourneyPrompt(args.prompt, {
+            ...args,
+            characterReferences,
+            styleReferences,
+          }),
           aspect_ratio: args.aspectRatio,
-          key_frames: {
-            frame0: {
-              type: args.keyFrame ? "image" : "",
-              url: args.keyFrame,
-            },
-          },
+          process_mode: args.processMode,
         },
       });
-      const { taskId, usage, output } = await handleTask(
+      return await handleTask(
         log,
         reportProgress,
         requestBody,
-        config
+        config,
+        args.wait,
+        formatImageResult,
+        args.preview
       );
-
-      const [video_raw, last_frame] = parseLumaOutput(taskId, output, log);
-      return {
-        content: [
-          {
-            type: "text",
-            text: `TaskId: ${taskId}\nVideo generated successfully!\nUsage: ${usage} tokens\nVideo url:\n${video_raw.url}\nVideo resolution: ${video_raw.width}x${video_raw.height}\nLast frame url:\n${last_frame.url}\nLast frame resolution: ${last_frame.width}x${last_frame.height}`,
-          },
-        ],
-      };
     },
   });
-}
-
-const TRELLIS_MODEL_CONFIG: Record<string, BaseConfig> = {
-  trellis: { maxAttempts: 30, timeout: 600 },
-};
-
-const HAILUO_MODEL_CONFIG: Record<string, BaseConfig> = {
-  hailuo: { maxAttempts: 60, timeout: 900 },
-};
-
-function registerTrellisTool(server: FastMCP) {
   server.addTool({
-    name: "generate_3d_model",
-    description: "Generate a 3d model using Qubico Trellis",
+    name: "midjourney_upscale",
+    description:
+      "Upscale one image of the grid of a Midjourney imagine, variation, reroll, pan, zoom, inpaint or blend task (U1-U4)",
     parameters: z.object({
-      image: z.string().url().describe("The image to generate a 3d model from"),
+      parentTaskId: parentTaskIdParameter("upscale an image of"),
+      index: imageIndexParameter("upscale"),
+      processMode: processModeParameter(),
+      wait: waitParameter(),
+      preview: previewParameter(),
     }),
     execute: async (args, { log, reportProgress }) => {
-      // Create 3d model generation task
-      if (!args.image) {
-        throw new UserError("Image is required");
+      if (!args.parentTaskId) {
+        throw new UserError("Parent task ID is required");
       }
-      const config = TRELLIS_MODEL_CONFIG["trellis"];
+      const config = MIDJOURNEY_MODEL_CONFIG["upscale"];
 
       const requestBody = JSON.stringify({
-        model: "Qubico/trellis",
-        task_type: "image-to-3d",
+        model: "midjourney",
+        task_type: "upscale",
         input: {
-          image: args.image,
+          origin_task_id: args.parentTaskId,
+          index: String(args.index),
+          process_mode: args.processMode,
         },
       });
-      const { taskId, usage, output } = await handleTask(
+      return await handleTask(
         log,
         reportProgress,
         requestBody,
-        config
-      );
-
-      const [imageUrl, videoUrl, modelFileUrl] = parseTrellisOutput(
-        taskId,
-        output,
-        log
+        config,
+        args.wait,
+        formatImageResult,
+        args.preview
       );
-      return {
-        content: [
-          {
-            type: "text",
-            text: `TaskId: ${taskId}\n3d model generated successfully!\nUsage: ${usage} tokens\nImage url:\n${imageUrl}\nVideo url:\n${videoUrl}\nModel file url:\n${modelFileUrl}`,
-          },
-        ],
-      };
     },
   });
-}
-
-function registerHailuoTool(server: FastMCP) {
   server.addTool({
-    name: "generate_video_hailuo",
-    description: "Generate a video using Hailuo",
+    name: "midjourney_variation",
+    description:
+      "Generate variations of one image of a Midjourney grid (V1-V4), or a strong or subtle variation of an upscaled image",
     parameters: z.object({
-      prompt: z
-        .string()
-        .max(2000)
-        .describe("The prompt to generate a video from (max 2000 characters)"),
-      imageUrl: z
-        .string()
-        .url()
-        .optional()
-        .describe("The image URL for image-to-video models"),
-      expandPrompt: z
-        .boolean()
+      parentTaskId: parentTaskIdParameter("vary"),
+      index: imageIndexParameter("vary")
         .optional()
-        .default(false)
-        .describe("Whether to expand the prompt"),
-      model: z
-        .enum(["t2v-01", "t2v-01-director", "i2v-01", "i2v-01-live", "i2v-01-director", "s2v-01"])
+        .describe(
+          "The image of the grid to vary, 1 to 4 from top left to bottom right, for grid tasks"
+        ),
+      strength: z
+        .enum(["strong", "subtle"])
         .optional()
-        .default("t2v-01")
-        .describe("The model to use for video generation. t2v models are text-to-video, i2v models are image-to-video, s2v-01 requires human face detection"),
+        .describe("How much to vary the image, for upscale tasks"),
+      prompt: remixPromptParameter(),
+      processMode: processModeParameter(),
+      wait: waitParameter(),
+      preview: previewParameter(),
     }),
     execute: async (args, { log, reportProgress }) => {
-      if (!args.prompt) {
-        throw new UserError("Prompt is required");
+      if (!args.parentTaskId) {
+        throw new UserError("Parent task ID is required");
       }
-
-      // Validate model requirements
-      const isImageToVideo = args.model.startsWith("i2v") || args.model === "s2v-01";
-      if (isImageToVideo && !args.imageUrl) {
-        throw new UserError(`Image URL is required for ${args.model} model`);
-      }
-      if (!isImageToVideo && args.imageUrl) {
-        log.warn(`Image URL provided but ${args.model} is a text-to-video model`);
+      if ((args.index === undefined) === (args.strength === undefined)) {
+        throw new UserError(
+          "Either index, to vary an image of a grid, or strength, to vary an upscaled image, is required"
+        );
       }
-
-      const config = HAILUO_MODEL_CONFIG["hailuo"];
+      const config = MIDJOURNEY_MODEL_CONFIG["variation"];
 
       const requestBody = JSON.stringify({
-        model: args.model,
-        task_type: "video_generation",
+        model: "midjourney",
+        task_type: "variation",
         input: {
+          origin_task_id: args.parentTaskId,
+          index: args.strength
+            ? args.strength === "strong"
+              ? "high_variation"
+              : "low_variation"
+            : String(args.index),
           prompt: args.prompt,
-          image_url: args.imageUrl,
-          expand_prompt: args.expandPrompt,
+          process_mode: args.processMode,
         },
       });
+      return await handleTask(
+        log,
+        reportProgress,
+        requestBody,
+        config,
+        args.wait,
+        formatImageResult,
+        args.preview
+      );
+    },
+  });
+  server.addTool({
+    name: "midjourney_reroll",
+    description: "Run the prompt of a Midjourney task again for a new grid",
+    parameters: z.object({
+      parentTaskId: parentTaskIdParameter("reroll"),
+      prompt: remixPromptParameter(),
+      aspectRatio: midjourneyAspectRatioParameter(),
+      processMode: processModeParameter(),
+      wait: waitParameter(),
+      preview: previewParameter(),
+    }),
+    execute: async (args, { log, reportProgress }) => {
+      if (!args.parentTaskId) {
+        throw new UserError("Parent task ID is required");
+      }
+      const config = MIDJOURNEY_MODEL_CONFIG["reroll"];
 
-      const { taskId, usage, output } = await handleTask(
+      const requestBody = JSON.stringify({
+        model: "midjourney",
+        task_type: "reroll",
+        input: {
+          origin_task_id: args.parentTaskId,
+          prompt: args.prompt,
+          aspect_ratio: args.aspectRatio,
+          process_mode: args.processMode,
+        },
+      });
+      return await handleTask(
         log,
         reportProgress,
         requestBody,
-        config
+        config,
+        args.wait,
+        formatImageResult,
+        args.preview
       );
+    },
+  });
+  server.addTool({
+    name: "midjourney_pan",
+    description: "Extend an upscaled Midjourney image in one direction",
+    parameters: z.object({
+      parentTaskId: parentTaskIdParameter("pan, must be an upscale task"),
+      direction: z
+        .enum(["up", "down", "left", "right"])
+        .describe("The direction to extend the image in"),
+      prompt: remixPromptParameter(),
+      processMode: processModeParameter(),
+      wait: waitParameter(),
+      preview: previewParameter(),
+    }),
+    execute: async (args, { log, reportProgress }) => {
+      if (!args.parentTaskId) {
+        throw new UserError("Parent task ID is required");
+      }
+      const config = MIDJOURNEY_MODEL_CONFIG["pan"];
 
-      const url = parseVideoOutput(taskId, output);
-      return {
-        content: [
-          {
-            type: "text",
-            text: `TaskId: ${taskId}\nVideo generated successfully!\nUsage: ${usage} tokens\nVideo url:\n${url}`,
-          },
-        ],
-      };
+      const requestBody = JSON.stringify({
+        model: "midjourney",
+        task_type: "pan",
+        input: {
+          origin_task_id: args.parentTaskId,
+          direction: args.direction,
+          prompt: args.prompt,
+          process_mode: args.processMode,
+        },
+      });
+      return await handleTask(
+        log,
+        reportProgress,
+        requestBody,
+        config,
+        args.wait,
+        formatImageResult,
+        args.preview
+      );
+    },
+  });
+  server.addTool({
+    name: "midjourney_zoom",
+    description:
+      "Zoom out of an upscaled Midjourney image, outpainting around it, or make it square",
+    parameters: z.object({
+      parentTaskId: parentTaskIdParameter("zoom out of, must be an upscale task"),
+      zoom: z
+        .enum(["1.5", "2", "square"])
+        .optional()
+        .default("2")
+        .describe(
+          "How far to zoom out, '1.5' or '2', or 'square' to extend the image to a square, defaults to '2'"
+        ),
+      prompt: remixPromptParameter(),
+      processMode: processModeParameter(),
+      wait: waitParameter(),
+      preview: previewParameter(),
+    }),
+    execute: async (args, { log, reportProgress }) => {
+      if (!args.parentTaskId) {
+        throw new UserError("Parent task ID is required");
+      }
+      const config = MIDJOURNEY_MODEL_CONFIG["outpaint"];
+
+      const requestBody = JSON.stringify({
+        model: "midjourney",
+        task_type: "outpaint",
+        input: {
+          origin_task_id: args.parentTaskId,
+          zoom_ratio: args.zoom === "square" ? "1" : args.zoom,
+          prompt: args.prompt,
+          process_mode: args.processMode,
+        },
+      });
+      return await handleTask(
+        log,
+        reportProgress,
+        requestBody,
+        config,
+        args.wait,
+        formatImageResult,
+        args.preview
+      );
+    },
+  });
+  server.addTool({
+    name: "midjourney_inpaint",
+    description:
+      "Regenerate a region of an upscaled Midjourney image (vary region)",
+    parameters: z.object({
+      parentTaskId: parentTaskIdParameter("inpaint, must be an upscale task"),
+      mask: mediaInputParameter(
+        "A PNG mask the size of the image, white where the image is regenerated"
+      ),
+      prompt: z.string().describe("The prompt to regenerate the region with"),
+      processMode: processModeParameter(),
+      wait: waitParameter(),
+      preview: previewParameter(),
+    }),
+    execute: async (args, { log, reportProgress }) => {
+      if (!args.parentTaskId || !args.prompt) {
+        throw new UserError("Parent task ID and prompt are required");
+      }
+      const config = MIDJOURNEY_MODEL_CONFIG["inpaint"];
+
+      const mask = await readMediaInput(
+        "mask",
+        args.mask,
+        MEDIA_INPUT_LIMITS.mask
+      );
+
+      const requestBody = JSON.stringify({
+        model: "midjourney",
+        task_type: "inpaint",
+        input: {
+          origin_task_id: args.parentTaskId,
+          mask: mask.toString("base64"),
+          prompt: args.prompt,
+          process_mode: args.processMode,
+        },
+      });
+      return await handleTask(
+        log,
+        reportProgress,
+        requestBody,
+        config,
+        args.wait,
+        formatImageResult,
+        args.preview
+      );
+    },
+  });
+  server.addTool({
+    name: "midjourney_describe",
+    description: "Describe an image with four Midjourney prompts",
+    parameters: z.object({
+      image: mediaInputParameter("The image to describe"),
+      processMode: processModeParameter(),
+      wait: waitParameter(),
+    }),
+    execute: async (args, { log, reportProgress }) => {
+      if (!args.image) {
+        throw new UserError("Image is required");
+      }
+      const config = MIDJOURNEY_MODEL_CONFIG["describe"];
+
+      const image = await resolveMediaInput(
+        "image",
+        args.image,
+        MEDIA_INPUT_LIMITS.midjourney
+      );
+
+      const requestBody = JSON.stringify({
+        model: "midjourney",
+        task_type: "describe",
+        input: {
+          image_url: image,
+          process_mode: args.processMode,
+        },
+      });
+      return await handleTask(
+        log,
+        reportProgress,
+        requestBody,
+        config,
+        args.wait,
+        formatMidjourneyDescribeResult
+      );
+    },
+  });
+  server.addTool({
+    name: "midjourney_blend",
+    description: "Blend 2 to 5 images into new ones using Midjourney",
+    parameters: z.object({
+      images: z
+        .array(mediaInputParameter("An image to blend"))
+        .min(2)
+        .max(5)
+        .describe("The images to blend"),
+      dimension: z
+        .enum(["square", "portrait", "landscape"])
+        .optional()
+        .default("square")
+        .describe("The shape of the blended images, defaults to 'square'"),
+      processMode: processModeParameter(),
+      wait: waitParameter(),
+      preview: previewParameter(),
+    }),
+    execute: async (args, { log, reportProgress }) => {
+      const config = MIDJOURNEY_MODEL_CONFIG["blend"];
+
+      const images = await resolveMediaInputs(
+        "images",
+        args.images,
+        MEDIA_INPUT_LIMITS.midjourney
+      );
+
+      const requestBody = JSON.stringify({
+        model: "midjourney",
+        task_type: "blend",
+        input: {
+          image_urls: images,
+          dimension: args.dimension,
+          process_mode: args.processMode,
+        },
+      });
+      return await handleTask(
+        log,
+        reportProgress,
+        requestBody,
+        config,
+        args.wait,
+        formatImageResult,
+        args.preview
+      );
     },
   });
 }
 
-// Task handler
-async function handleTask(
-  log: any,
-  reportProgress: (progress: Progress) => Promise<void>,
-  requestBody: string,
-  config: BaseConfig
-): Promise<{ taskId: string; usage: string; output: unknown }> {
-  const taskId = await createTask(requestBody);
-  log.info(`Task created with ID: ${taskId}`);
-  return await getTaskResult(
-    log,
-    reportProgress,
-    taskId,
-    config.maxAttempts,
-    config.timeout
-  );
+const KLING_MODEL_CONFIG: Record<string, BaseConfig> = {
+  video: { pollInterval: 15, timeout: 900 },
+  effect: { pollInterval: 15, timeout: 900 },
+  extend: { pollInterval: 15, timeout: 900 },
+  lipSync: { pollInterval: 15, timeout: 900 },
+  tryOn: { pollInterval: 10, timeout: 600 },
+};
+
+// The effects Kling supports, and how many people each one animates. A
+// function so that the table exists when the tools are registered
+function klingEffects() {
+  return {
+    squish: { images: 1, description: "squishes the subject like clay" },
+    expansion: { images: 1, description: "inflates the subject" },
+    fuzzyfuzzy: { images: 1, description: "turns the subject into plush" },
+    bloombloom: {
+      images: 1,
+      description: "makes flowers bloom around the subject",
+    },
+    dizzydizzy: { images: 1, description: "spins the subject around" },
+    hug: { images: 2, description: "makes two people hug" },
+    kiss: { images: 2, description: "makes two people kiss" },
+    heart_gesture: {
+      images: 2,
+      description: "makes two people form a heart with their hands",
+    },
+  } satisfies Record<string, { images: 1 | 2; description: string }>;
 }
 
-async function createTask(requestBody: string) {
-  const createResponse = await fetch("https://api.piapi.ai/api/v1/task", {
-    method: "POST",
-    headers: {
-      "X-API-Key": apiKey,
-      Accept: "application/json",
-      "Content-Type": "application/json",
+type KlingEffectName = keyof ReturnType<typeof klingEffects>;
+
+function klingEffectParameter() {
+  const effects = klingEffects();
+  const names = Object.keys(effects) as [
+    KlingEffectName,
+    ...KlingEffectName[],
+  ];
+  return z
+    .enum(names)
+    .optional()
+    .default("squish")
+    .describe(
+      `The effect to generate, defaults to 'squish':\n${names
+        .map(
+          (name) =>
+            `- ${name}: ${effects[name].description}${
+              effects[name].images === 2 ? ", requires secondImage" : ""
+            }`
+        )
+        .join("\n")}`
+    );
+}
+
+function klingCameraControlParameter() {
+  return z
+    .object({
+      type: z
+        .enum([
+          "simple",
+          "down_back",
+          "forward_up",
+          "right_turn_forward",
+          "left_turn_forward",
+        ])
+        .describe(
+          "A preset movement, or 'simple' for the custom movement set in config"
+        ),
+      config: z
+        .object({
+          horizontal: z.number().min(-10).max(10).optional(),
+          vertical: z.number().min(-10).max(10).optional(),
+          pan: z.number().min(-10).max(10).optional(),
+          tilt: z.number().min(-10).max(10).optional(),
+          roll: z.number().min(-10).max(10).optional(),
+          zoom: z.number().min(-10).max(10).optional(),
+        })
+        .optional()
+        .describe(
+          "The custom movement of a 'simple' camera, exactly one of the values from -10 to 10 must be non-zero"
+        ),
+    })
+    .describe(
+      "The camera movement, only one of imageTail, the motion brush masks and cameraControl can be used"
+    );
+}
+
+function klingDynamicMaskParameter() {
+  return z.object({
+    mask: mediaInputParameter(
+      "A black and white mask of the area to move, the size of the reference image"
+    ),
+    trajectory: z
+      .array(z.object({ x: z.number().int(), y: z.number().int() }))
+      .min(2)
+      .max(77)
+      .describe(
+        "The path the area follows, in pixels of the reference image from its bottom left corner"
+      ),
+  });
+}
+
+function registerKlingTool(server: ToolServer) {
+  server.addTool({
+    name: "generate_video_kling",
+    description: "Generate a video using Kling",
+    parameters: z.object({
+      prompt: z.string().describe("The prompt to generate a video from"),
+      negativePrompt: z
+        .string()
+        .describe("The negative prompt to generate a video from")
+        .optional()
+        .default("chaos, bad video, low quality, low resolution"),
+      referenceImage: mediaInputParameter(
+        "The reference image to generate a video with"
+      ).optional(),
+      aspectRatio: z
+        .enum(["16:9", "1:1", "9:16"])
+        .optional()
+        .default("16:9")
+        .describe(
+          "The aspect ratio of the video to generate, must be either '16:9', '1:1', or '9:16', defaults to '16:9'"
+        ),
+      duration: z
+        .enum(["5s", "10s"])
+        .optional()
+        .default("5s")
+        .describe(
+          "The duration of the video to generate, defaults to 5 seconds"
+        ),
+      version: z
+        .enum(["1.0", "1.5", "1.6", "2.0", "2.1"])
+        .optional()
+        .describe("The Kling model version, defaults to '1.5'"),
+      mode: z
+        .enum(["std", "pro"])
+        .optional()
+        .describe(
+          "The generation mode, 'pro' is slower and more expensive but of higher quality, defaults to 'std'"
+        ),
+      cfgScale: z
+        .number()
+        .min(0)
+        .max(1)
+        .optional()
+        .describe(
+          "How closely the video follows the prompt, from 0 to 1, defaults to 0.5"
+        ),
+      imageTail: mediaInputParameter(
+        "The last frame of the video, requires referenceImage as the first frame"
+      ).optional(),
+      cameraControl: klingCameraControlParameter().optional(),
+      staticMask: mediaInputParameter(
+        "A black and white motion brush mask of the area to keep still, the size of the reference image, requires referenceImage"
+      ).optional(),
+      dynamicMasks: z
+        .array(klingDynamicMaskParameter())
+        .max(6)
+        .optional()
+        .describe(
+          "Motion brush masks of areas to move along a trajectory, requires referenceImage"
+        ),
+      wait: waitParameter(),
+    }),
+    execute: async (args, { log, reportProgress }) => {
+      // Create video generation task
+      if (!args.prompt) {
+        throw new UserError("Prompt is required");
+      }
+      const motionBrush = Boolean(args.staticMask || args.dynamicMasks?.length);
+      if ((args.imageTail || motionBrush) && !args.referenceImage) {
+        throw new UserError(
+          "imageTail, staticMask and dynamicMasks require referenceImage"
+        );
+      }
+      const frameControls = [args.imageTail, motionBrush, args.cameraControl];
+      if (frameControls.filter(Boolean).length > 1) {
+        throw new UserError(
+          "Only one of imageTail, the motion brush masks and cameraControl can be used at a time"
+        );
+      }
+      if (args.cameraControl) {
+        checkKlingCameraControl(args.cameraControl);
+      }
+      const config = KLING_MODEL_CONFIG["video"];
+
+      const referenceImage = await resolveMediaInput(
+        "referenceImage",
+        args.referenceImage,
+        MEDIA_INPUT_LIMITS.kling
+      );
+      const imageTail = await resolveMediaInput(
+        "imageTail",
+        args.imageTail,
+        MEDIA_INPUT_LIMITS.kling
+      );
+      const staticMask = await resolveMediaInput(
+        "staticMask",
+        args.staticMask,
+        MEDIA_INPUT_LIMITS.kling
+      );
+      const dynamicMasks = [];
+      for (const [i, dynamicMask] of (args.dynamicMasks ?? []).entries()) {
+        dynamicMasks.push({
+          mask_url: await resolveMediaInput(
+            `dynamicMasks[${i}].mask`,
+            dynamicMask.mask,
+            MEDIA_INPUT_LIMITS.kling
+          ),
+          trajectories: dynamicMask.trajectory,
+        });
+      }
+
+      const requestBody = JSON.stringify({
+        model: "kling",
+        task_type: "video_generation",
+        input: {
+          prompt: args.prompt,
+          negative_prompt: args.negativePrompt,
+          aspect_ratio: args.aspectRatio,
+          image_url: referenceImage,
+          image_tail_url: imageTail,
+          duration: args.duration === "5s" ? 5 : 10,
+          version: args.version,
+          mode: args.mode,
+          cfg_scale: args.cfgScale,
+          camera_control: args.cameraControl,
+          static_mask_url: staticMask,
+          dynamic_masks: dynamicMasks.length > 0 ? dynamicMasks : undefined,
+        },
+      });
+      return await handleTask(
+        log,
+        reportProgress,
+        requestBody,
+        config,
+        args.wait,
+        formatKlingResult
+      );
     },
-    body: requestBody,
   });
+  server.addTool({
+    name: "generate_video_effect_kling",
+    description: "Generate a video effect using Kling",
+    parameters: z.object({
+      image: mediaInputParameter(
+        "The reference image to generate a video effect from"
+      ),
+      secondImage: mediaInputParameter(
+        "The image of the second person, for the effects that animate two people"
+      ).optional(),
+      effectName: klingEffectParameter(),
+      wait: waitParameter(),
+    }),
+    execute: async (args, { log, reportProgress }) => {
+      // Create video generation task
+      if (!args.image) {
+        throw new UserError("Image is required");
+      }
+      const effect = klingEffects()[args.effectName];
+      if (effect.images === 2 && !args.secondImage) {
+        throw new UserError(
+          `The '${args.effectName}' effect animates two people, secondImage is required`
+        );
+      }
+      if (effect.images === 1 && args.secondImage) {
+        throw new UserError(
+          `The '${args.effectName}' effect animates one image, please remove secondImage`
+        );
+      }
+      const config = KLING_MODEL_CONFIG["effect"];
 
-  const createData = await createResponse.json();
+      const image = await resolveMediaInput(
+        "image",
+        args.image,
+        MEDIA_INPUT_LIMITS.kling
+      );
+      const secondImage = await resolveMediaInput(
+        "secondImage",
+        args.secondImage,
+        MEDIA_INPUT_LIMITS.kling
+      );
 
-  if (createData.code !== 200) {
-    throw new UserError(`Task creation failed: ${createData.message}`);
+      const requestBody = JSON.stringify({
+        model: "kling",
+        task_type: "effects",
+        input: secondImage
+          ? { image_urls: [image, secondImage], effect: args.effectName }
+          : { image_url: image, effect: args.effectName },
+      });
+      return await handleTask(
+        log,
+        reportProgress,
+        requestBody,
+        config,
+        args.wait,
+        formatKlingResult
+      );
+    },
+  });
+  server.addTool({
+    name: "extend_video_kling",
+    description:
+      "Extend a video generated by Kling by about 4.5 seconds, the new video holds the whole extended video",
+    parameters: z.object({
+      originTaskId: z
+        .string()
+        .min(1)
+        .describe(
+          "The TaskId of the Kling video to extend, a generate_video_kling or extend_video_kling task"
+        ),
+      wait: waitParameter(),
+    }),
+    execute: async (args, { log, reportProgress }) => {
+      const config = KLING_MODEL_CONFIG["extend"];
+
+      const requestBody = JSON.stringify({
+        model: "kling",
+        task_type: "extend_video",
+        input: {
+          origin_task_id: args.originTaskId,
+        },
+      });
+      return await handleTask(
+        log,
+        reportProgress,
+        requestBody,
+        config,
+        args.wait,
+        formatKlingResult
+      );
+    },
+  });
+  server.addTool({
+    name: "lip_sync_kling",
+    description:
+      "Make the person of a video generated by Kling speak, to an audio or to a text read by a Kling voice",
+    parameters: z.object({
+      originTaskId: z
+        .string()
+        .min(1)
+        .describe(
+          "The TaskId of the Kling video to animate, a generate_video_kling or extend_video_kling task"
+        ),
+      audio: mediaInputParameter(
+        "The speech to lip sync to, mp3, wav, aac or m4a up to 5 MB, e.g. the audio url of a tts_zero_shot result"
+      ).optional(),
+      text: z
+        .string()
+        .max(120)
+        .optional()
+        .describe("The text to speak instead of an audio, limited to 120 characters"),
+      voiceId: z
+        .string()
+        .optional()
+        .describe(
+          "The Kling voice reading the text, e.g. 'oversea_male1', 'uk_man2', 'genshin_vindi2' or 'ai_shatang', required with text"
+        ),
+      voiceSpeed: z
+        .number()
+        .min(0.8)
+        .max(2)
+        .optional()
+        .describe("The speed of the voice, from 0.8 to 2, defaults to 1"),
+      wait: waitParameter(),
+    }),
+    execute: async (args, { log, reportProgress }) => {
+      if (!args.audio === !args.text) {
+        throw new UserError("Either audio or text is required, but not both");
+      }
+      if (args.text && !args.voiceId) {
+        throw new UserError("voiceId is required to speak a text");
+      }
+      if (args.audio && (args.voiceId || args.voiceSpeed !== undefined)) {
+        throw new UserError(
+          "voiceId and voiceSpeed are only used with text, please remove them to lip sync to an audio"
+        );
+      }
+      const config = KLING_MODEL_CONFIG["lipSync"];
+
+      const audio = await resolveMediaInput(
+        "audio",
+        args.audio,
+        MEDIA_INPUT_LIMITS.klingAudio
+      );
+
+      const requestBody = JSON.stringify({
+        model: "kling",
+        task_type: "lip_sync",
+        input: {
+          origin_task_id: args.originTaskId,
+          local_dubbing_url: audio,
+          tts_text: args.text,
+          tts_timbre: args.voiceId,
+          tts_speed: args.voiceSpeed,
+        },
+      });
+      return await handleTask(
+        log,
+        reportProgress,
+        requestBody,
+        config,
+        args.wait,
+        formatKlingResult
+      );
+    },
+  });
+  server.addTool({
+    name: "virtual_try_on_kling",
+    description:
+      "Dress the person of a model image in garments using Kling Virtual Try-On",
+    parameters: z.object({
+      modelImage: mediaInputParameter("The image of the person to dress"),
+      dress: mediaInputParameter(
+        "The image of a dress or full-body outfit, not compatible with upper and lower"
+      ).optional(),
+      upper: mediaInputParameter("The image of an upper-body garment").optional(),
+      lower: mediaInputParameter("The image of a lower-body garment").optional(),
+      batchSize: z
+        .number()
+        .int()
+        .min(1)
+        .max(4)
+        .optional()
+        .default(1)
+        .describe("The number of images to generate, defaults to 1"),
+      wait: waitParameter(),
+      preview: previewParameter(),
+    }),
+    execute: async (args, { log, reportProgress }) => {
+      if (!args.dress && !args.upper && !args.lower) {
+        throw new UserError("At least one of dress, upper and lower is required");
+      }
+      if (args.dress && (args.upper || args.lower)) {
+        throw new UserError(
+          "dress is not compatible with upper and lower, please remove one of them"
+        );
+      }
+      const config = KLING_MODEL_CONFIG["tryOn"];
+
+      const modelImage = await resolveMediaInput(
+        "modelImage",
+        args.modelImage,
+        MEDIA_INPUT_LIMITS.kling
+      );
+      const dress = await resolveMediaInput(
+        "dress",
+        args.dress,
+        MEDIA_INPUT_LIMITS.kling
+      );
+      const upper = await resolveMediaInput(
+        "upper",
+        args.upper,
+        MEDIA_INPUT_LIMITS.kling
+      );
+      const lower = await resolveMediaInput(
+        "lower",
+        args.lower,
+        MEDIA_INPUT_LIMITS.kling
+      );
+
+      const requestBody = JSON.stringify({
+        model: "kling",
+        task_type: "ai_try_on",
+        input: {
+          model_input: modelImage,
+          dress_input: dress,
+          upper_input: upper,
+          lower_input: lower,
+          batch_size: args.batchSize,
+        },
+      });
+      return await handleTask(
+        log,
+        reportProgress,
+        requestBody,
+        config,
+        args.wait,
+        formatKlingTryOnResult,
+        args.preview
+      );
+    },
+  });
+}
+
+// A 'simple' camera moves along exactly one axis, the presets take no config
+function checkKlingCameraControl(
+  cameraControl: z.infer<ReturnType<typeof klingCameraControlParameter>>
+) {
+  if (cameraControl.type !== "simple") {
+    if (cameraControl.config) {
+      throw new UserError(
+        `cameraControl.config is only used by the 'simple' camera, not '${cameraControl.type}'`
+      );
+    }
+    return;
+  }
+  const movements = Object.entries(cameraControl.config ?? {}).filter(
+    ([, value]) => value
+  );
+  if (movements.length !== 1) {
+    throw new UserError(
+      "A 'simple' camera needs exactly one non-zero value in cameraControl.config"
+    );
+  }
+}
+
+const SUNO_MODEL_CONFIG: Record<string, BaseConfig> = {
+  music: { pollInterval: 10, timeout: 900 },
+  extend: { pollInterval: 10, timeout: 900 },
+  concat: { pollInterval: 10, timeout: 600 },
+  lyrics: { pollInterval: 5, timeout: 120 },
+};
+
+function registerSunoTool(server: ToolServer) {
+  server.addTool({
+    name: "generate_music_suno",
+    description: "Generate music using Suno",
+    parameters: z.object({
+      prompt: z
+        .string()
+        .max(3000)
+        .describe(
+          "The prompt to generate a music from, limited to 3000 characters"
+        ),
+      makeInstrumental: z
+        .boolean()
+        .optional()
+        .default(false)
+        .describe(
+          "Whether to make the music instrumental, defaults to false. Not compatible with title, tags, negativeTags"
+        ),
+      title: z
+        .string()
+        .max(80)
+        .optional()
+        .describe("The title of the music, limited to 80 characters"),
+      tags: z
+        .string()
+        .max(200)
+        .optional()
+        .describe("The tags of the music, limited to 200 characters"),
+      negativeTags: z
+        .string()
+        .max(200)
+        .optional()
+        .describe("The negative tags of the music, limited to 200 characters"),
+      wait: waitParameter(),
+    }),
+    execute: async (args, { log, reportProgress }) => {
+      // Create video generation task
+      if (!args.prompt) {
+        throw new UserError("Prompt is required");
+      }
+      const config = SUNO_MODEL_CONFIG["music"];
+
+      let requestBody = "";
+      if (args.title || args.tags || args.negativeTags) {
+        if (args.makeInstrumental) {
+          throw new UserError(
+            "makeInstrumental is not compatible with title, tags, negativeTags, please remove them if you want to make the music instrumental"
+          );
+        }
+        requestBody = JSON.stringify({
+          model: "music-s",
+          task_type: "generate_music_custom",
+          input: {
+            prompt: args.prompt,
+            title: args.title,
+            tags: args.tags,
+            negative_tags: args.negativeTags,
+          },
+        });
+      } else {
+        requestBody = JSON.stringify({
+          model: "music-s",
+          task_type: "generate_music",
+          input: {
+            prompt: args.prompt,
+            make_instrumental: args.makeInstrumental,
+          },
+        });
+      }
+
+      return await handleTask(
+        log,
+        reportProgress,
+        requestBody,
+        config,
+        args.wait,
+        formatSunoMusicResult
+      );
+    },
+  });
+
+  server.addTool({
+    name: "extend_music_suno",
+    description:
+      "Continue a Suno clip from a timestamp, the new clip holds only the continuation, use concat_music_suno to join it with the earlier clips",
+    parameters: z.object({
+      clipId: sunoClipIdParameter("The id of the clip to continue"),
+      continueAt: z
+        .number()
+        .min(0)
+        .optional()
+        .describe(
+          "The time in seconds to continue the clip from, defaults to the end of the clip"
+        ),
+      prompt: z
+        .string()
+        .max(3000)
+        .optional()
+        .describe(
+          "The lyrics of the continuation, limited to 3000 characters, instrumental when empty"
+        ),
+      title: z
+        .string()
+        .max(80)
+        .optional()
+        .describe("The title of the music, limited to 80 characters"),
+      tags: z
+        .string()
+        .max(200)
+        .optional()
+        .describe("The tags of the continuation, limited to 200 characters"),
+      negativeTags: z
+        .string()
+        .max(200)
+        .optional()
+        .describe("The negative tags of the continuation, limited to 200 characters"),
+      wait: waitParameter(),
+    }),
+    execute: async (args, { log, reportProgress }) => {
+      const config = SUNO_MODEL_CONFIG["extend"];
+
+      const requestBody = JSON.stringify({
+        model: "music-s",
+        task_type: "extend_music",
+        input: {
+          continue_clip_id: args.clipId,
+          continue_at: args.continueAt,
+          prompt: args.prompt,
+          title: args.title,
+          tags: args.tags,
+          negative_tags: args.negativeTags,
+        },
+      });
+
+      return await handleTask(
+        log,
+        reportProgress,
+        requestBody,
+        config,
+        args.wait,
+        formatSunoMusicResult
+      );
+    },
+  });
+
+  server.addTool({
+    name: "concat_music_suno",
+    description:
+      "Join an extended Suno clip with the clips it continues into the full song",
+    parameters: z.object({
+      clipId: sunoClipIdParameter(
+        "The id of the last clip of the song, an output of extend_music_suno"
+      ),
+      wait: waitParameter(),
+    }),
+    execute: async (args, { log, reportProgress }) => {
+      const config = SUNO_MODEL_CONFIG["concat"];
+
+      const requestBody = JSON.stringify({
+        model: "music-s",
+        task_type: "concat_music",
+        input: {
+          clip_id: args.clipId,
+        },
+      });
+
+      return await handleTask(
+        log,
+        reportProgress,
+        requestBody,
+        config,
+        args.wait,
+        formatSunoMusicResult
+      );
+    },
+  });
+
+  server.addTool({
+    name: "generate_lyrics_suno",
+    description:
+      "Generate song lyrics using Suno, to use as the prompt of generate_music_suno or extend_music_suno",
+    parameters: z.object({
+      prompt: z
+        .string()
+        .max(3000)
+        .describe(
+          "What the lyrics should be about, limited to 3000 characters"
+        ),
+      wait: waitParameter(),
+    }),
+    execute: async (args, { log, reportProgress }) => {
+      if (!args.prompt) {
+        throw new UserError("Prompt is required");
+      }
+      const config = SUNO_MODEL_CONFIG["lyrics"];
+
+      const requestBody = JSON.stringify({
+        model: "music-s",
+        task_type: "generate_lyrics",
+        input: {
+          prompt: args.prompt,
+        },
+      });
+
+      return await handleTask(
+        log,
+        reportProgress,
+        requestBody,
+        config,
+        args.wait,
+        formatSunoLyricsResult
+      );
+    },
+  });
+}
+
+function sunoClipIdParameter(description: string) {
+  return z
+    .string()
+    .min(1)
+    .describe(`${description}, as listed in the result of a Suno task`);
+}
+
+const UDIO_MODEL_CONFIG: Record<string, BaseConfig> = {
+  music: { pollInterval: 10, timeout: 900 },
+};
+
+function registerUdioTool(server: ToolServer) {
+  server.addTool({
+    name: "generate_music_udio",
+    description:
+      "Generate music using Udio, with generated, given or no lyrics, or continue an earlier Udio song",
+    parameters: z.object({
+      prompt: z
+        .string()
+        .max(3000)
+        .describe(
+          "The description of the music to generate, limited to 3000 characters"
+        ),
+      lyricsType: z
+        .enum(["generate", "user", "instrumental"])
+        .optional()
+        .default("generate")
+        .describe(
+          "Whether Udio writes the lyrics ('generate'), uses the given lyrics ('user') or makes an instrumental, defaults to 'generate'"
+        ),
+      lyrics: z
+        .string()
+        .max(3000)
+        .optional()
+        .describe(
+          "The lyrics to sing, limited to 3000 characters, required when lyricsType is 'user'"
+        ),
+      negativeTags: z
+        .string()
+        .max(200)
+        .optional()
+        .describe("The negative tags of the music, limited to 200 characters"),
+      seed: z
+        .number()
+        .int()
+        .min(0)
+        .optional()
+        .describe("The seed, to reproduce a song, random if not provided"),
+      continueSongId: z
+        .string()
+        .min(1)
+        .optional()
+        .describe(
+          "The id of an earlier Udio song to continue, as listed in the result of a Udio task"
+        ),
+      continueAt: z
+        .number()
+        .min(0)
+        .optional()
+        .describe(
+          "The time in seconds to continue the song from, defaults to the end of the song"
+        ),
+      wait: waitParameter(),
+    }),
+    execute: async (args, { log, reportProgress }) => {
+      if (!args.prompt) {
+        throw new UserError("Prompt is required");
+      }
+      if (args.lyricsType === "user" && !args.lyrics) {
+        throw new UserError("lyrics is required when lyricsType is 'user'");
+      }
+      if (args.lyricsType !== "user" && args.lyrics) {
+        throw new UserError(
+          "lyrics is only used when lyricsType is 'user', please set lyricsType to 'user' or remove lyrics"
+        );
+      }
+      if (args.continueAt !== undefined && !args.continueSongId) {
+        throw new UserError("continueAt requires continueSongId");
+      }
+      const config = UDIO_MODEL_CONFIG["music"];
+
+      const requestBody = JSON.stringify({
+        model: "music-u",
+        task_type: "generate_music",
+        input: {
+          gpt_description_prompt: args.prompt,
+          lyrics_type: args.lyricsType,
+          lyrics: args.lyrics,
+          negative_tags: args.negativeTags,
+          seed: args.seed,
+          continue_song_id: args.continueSongId,
+          continue_at: args.continueAt,
+        },
+      });
+
+      return await handleTask(
+        log,
+        reportProgress,
+        requestBody,
+        config,
+        args.wait,
+        formatUdioMusicResult
+      );
+    },
+  });
+}
+
+const LUMA_MODEL_CONFIG: Record<string, BaseConfig> = {
+  luma: { pollInterval: 15, timeout: 900 },
+  extend: { pollInterval: 15, timeout: 900 },
+};
+
+function lumaModelParameter() {
+  return z
+    .enum(["ray-v1", "ray-v2"])
+    .optional()
+    .describe(
+      "The Luma model, 'ray-v2' is newer and of higher quality, defaults to 'ray-v1'"
+    );
+}
+
+function lumaLoopParameter() {
+  return z
+    .boolean()
+    .optional()
+    .describe(
+      "Whether the video should loop seamlessly, not compatible with an end frame"
+    );
+}
+
+// A key frame is an image, or an earlier Luma generation to continue from
+type LumaKeyFrame =
+  | { type: "image"; url: string }
+  | { type: "generation"; id: string }
+  // No frame, the video starts from the prompt alone
+  | { type: "" };
+
+function registerLumaTool(server: ToolServer) {
+  server.addTool({
+    name: "generate_video_luma",
+    description: "Generate a video using Luma",
+    parameters: z.object({
+      prompt: z.string().describe("The prompt to generate a video from"),
+      duration: z
+        .enum(["5s", "10s"])
+        .optional()
+        .default("5s")
+        .describe(
+          "The duration of the video, defaults to 5s. If keyFrame is provided, only 5s is supported"
+        ),
+      aspectRatio: z
+        .string()
+        .optional()
+        .describe("The aspect ratio of the video, defaults to 16:9"),
+      keyFrame: mediaInputParameter(
+        "The first frame of the video, e.g. the last frame url of an earlier Luma video to chain clips"
+      ).optional(),
+      keyFrameTaskId: z
+        .string()
+        .min(1)
+        .optional()
+        .describe(
+          "The TaskId of an earlier Luma video to start from instead of keyFrame"
+        ),
+      endFrame: mediaInputParameter("The last frame of the video").optional(),
+      endFrameTaskId: z
+        .string()
+        .min(1)
+        .optional()
+        .describe(
+          "The TaskId of an earlier Luma video to end on instead of endFrame"
+        ),
+      loop: lumaLoopParameter(),
+      model: lumaModelParameter(),
+      wait: waitParameter(),
+    }),
+    execute: async (args, { log, reportProgress }) => {
+      // Create video generation task
+      if (!args.prompt) {
+        throw new UserError("Prompt is required");
+      }
+      if (args.keyFrame && args.keyFrameTaskId) {
+        throw new UserError("keyFrame and keyFrameTaskId can not be used together");
+      }
+      if (args.endFrame && args.endFrameTaskId) {
+        throw new UserError("endFrame and endFrameTaskId can not be used together");
+      }
+      if (args.loop && (args.endFrame || args.endFrameTaskId)) {
+        throw new UserError("loop is not compatible with endFrame and endFrameTaskId");
+      }
+      const config = LUMA_MODEL_CONFIG["luma"];
+
+      const keyFrame = await resolveMediaInput(
+        "keyFrame",
+        args.keyFrame,
+        MEDIA_INPUT_LIMITS.luma
+      );
+      const endFrame = await resolveMediaInput(
+        "endFrame",
+        args.endFrame,
+        MEDIA_INPUT_LIMITS.luma
+      );
+      let frame0: LumaKeyFrame = { type: "" };
+      if (keyFrame) {
+        frame0 = { type: "image", url: keyFrame };
+      } else if (args.keyFrameTaskId) {
+        frame0 = { type: "generation", id: args.keyFrameTaskId };
+      }
+      let frame1: LumaKeyFrame | undefined;
+      if (endFrame) {
+        frame1 = { type: "image", url: endFrame };
+      } else if (args.endFrameTaskId) {
+        frame1 = { type: "generation", id: args.endFrameTaskId };
+      }
+
+      const requestBody = JSON.stringify({
+        model: "luma",
+        task_type: "video_generation",
+        input: {
+          prompt: args.prompt,
+          duration: args.duration === "5s" ? 5 : 10,
+          aspect_ratio: args.aspectRatio,
+          key_frames: { frame0, frame1 },
+          loop: args.loop,
+          model_name: args.model,
+        },
+      });
+      return await handleTask(
+        log,
+        reportProgress,
+        requestBody,
+        config,
+        args.wait,
+        formatLumaResult
+      );
+    },
+  });
+  server.addTool({
+    name: "extend_video_luma",
+    description:
+      "Continue an earlier Luma video, or with reverse generate what leads into it",
+    parameters: z.object({
+      taskId: z
+        .string()
+        .min(1)
+        .describe(
+          "The TaskId of the Luma video to extend, a generate_video_luma or extend_video_luma task"
+        ),
+      prompt: z.string().describe("The prompt of the extension"),
+      reverse: z
+        .boolean()
+        .optional()
+        .default(false)
+        .describe(
+          "Whether to generate the video leading into the earlier one instead of its continuation, defaults to false"
+        ),
+      frame: mediaInputParameter(
+        "The image the extension should reach, its last frame, or its first frame when reverse"
+      ).optional(),
+      frameTaskId: z
+        .string()
+        .min(1)
+        .optional()
+        .describe(
+          "The TaskId of another Luma video the extension should reach instead of frame, to join two videos"
+        ),
+      loop: lumaLoopParameter(),
+      model: lumaModelParameter(),
+      wait: waitParameter(),
+    }),
+    execute: async (args, { log, reportProgress }) => {
+      if (!args.prompt) {
+        throw new UserError("Prompt is required");
+      }
+      if (args.frame && args.frameTaskId) {
+        throw new UserError("frame and frameTaskId can not be used together");
+      }
+      if (args.loop && (args.frame || args.frameTaskId)) {
+        throw new UserError("loop is not compatible with frame and frameTaskId");
+      }
+      const config = LUMA_MODEL_CONFIG["extend"];
+
+      const frame = await resolveMediaInput(
+        "frame",
+        args.frame,
+        MEDIA_INPUT_LIMITS.luma
+      );
+      const extended: LumaKeyFrame = { type: "generation", id: args.taskId };
+      let other: LumaKeyFrame | undefined;
+      if (frame) {
+        other = { type: "image", url: frame };
+      } else if (args.frameTaskId) {
+        other = { type: "generation", id: args.frameTaskId };
+      }
+
+      const requestBody = JSON.stringify({
+        model: "luma",
+        task_type: "extend_video",
+        input: {
+          prompt: args.prompt,
+          key_frames: args.reverse
+            ? { frame0: other, frame1: extended }
+            : { frame0: extended, frame1: other },
+          loop: args.loop,
+          model_name: args.model,
+        },
+      });
+      return await handleTask(
+        log,
+        reportProgress,
+        requestBody,
+        config,
+        args.wait,
+        formatLumaResult
+      );
+    },
+  });
+}
+
+const TRELLIS_MODEL_CONFIG: Record<string, BaseConfig> = {
+  trellis: { pollInterval: 10, timeout: 600 },
+};
+
+const HAILUO_MODEL_CONFIG: Record<string, BaseConfig> = {
+  hailuo: { pollInterval: 15, timeout: 900 },
+};
+
+function registerTrellisTool(server: ToolServer) {
+  server.addTool({
+    name: "generate_3d_model",
+    description: "Generate a 3d model using Qubico Trellis",
+    parameters: z.object({
+      image: mediaInputParameter("The image to generate a 3d model from"),
+      wait: waitParameter(),
+    }),
+    execute: async (args, { log, reportProgress }) => {
+      // Create 3d model generation task
+      if (!args.image) {
+        throw new UserError("Image is required");
+      }
+      const config = TRELLIS_MODEL_CONFIG["trellis"];
+
+      const image = await resolveMediaInput(
+        "image",
+        args.image,
+        MEDIA_INPUT_LIMITS.trellis
+      );
+
+      const requestBody = JSON.stringify({
+        model: "Qubico/trellis",
+        task_type: "image-to-3d",
+        input: {
+          image,
+        },
+      });
+      return await handleTask(
+        log,
+        reportProgress,
+        requestBody,
+        config,
+        args.wait,
+        formatTrellisResult
+      );
+    },
+  });
+}
+
+function registerHailuoTool(server: ToolServer) {
+  server.addTool({
+    name: "generate_video_hailuo",
+    description: "Generate a video using Hailuo",
+    parameters: z.object({
+      prompt: z
+        .string()
+        .max(2000)
+        .describe("The prompt to generate a video from (max 2000 characters)"),
+      imageUrl: mediaInputParameter(
+        "The image for image-to-video models"
+      ).optional(),
+      expandPrompt: z
+        .boolean()
+        .optional()
+        .default(false)
+        .describe("Whether to expand the prompt"),
+      model: z
+        .enum(["t2v-01", "t2v-01-director", "i2v-01", "i2v-01-live", "i2v-01-director", "s2v-01"])
+        .optional()
+        .default("t2v-01")
+        .describe("The model to use for video generation. t2v models are text-to-video, i2v models are image-to-video, s2v-01 requires human face detection"),
+      wait: waitParameter(),
+    }),
+    execute: async (args, { log, reportProgress }) => {
+      if (!args.prompt) {
+        throw new UserError("Prompt is required");
+      }
+
+      // Validate model requirements
+      const isImageToVideo = args.model.startsWith("i2v") || args.model === "s2v-01";
+      if (isImageToVideo && !args.imageUrl) {
+        throw new UserError(`Image URL is required for ${args.model} model`);
+      }
+      if (!isImageToVideo && args.imageUrl) {
+        log.warn(`Image URL provided but ${args.model} is a text-to-video model`);
+      }
+
+      const config = HAILUO_MODEL_CONFIG["hailuo"];
+
+      const imageUrl = await resolveMediaInput(
+        "imageUrl",
+        args.imageUrl,
+        MEDIA_INPUT_LIMITS.hailuo
+      );
+
+      const requestBody = JSON.stringify({
+        model: args.model,
+        task_type: "video_generation",
+        input: {
+          prompt: args.prompt,
+          image_url: imageUrl,
+          expand_prompt: args.expandPrompt,
+        },
+      });
+
+      return await handleTask(
+        log,
+        reportProgress,
+        requestBody,
+        config,
+        args.wait,
+        formatVideoResult
+      );
+    },
+  });
+}
+
+const VEO3_MODEL_CONFIG: Record<string, BaseConfig> = {
+  veo3: { pollInterval: 15, timeout: 900 },
+  veo3Fast: { pollInterval: 10, timeout: 600 },
+};
+
+function registerVeo3Tool(server: ToolServer) {
+  server.addTool({
+    name: "generate_video_veo3",
+    description:
+      "Generate an 8 seconds video with native audio using Google Veo 3, from text or an image",
+    parameters: z.object({
+      prompt: z
+        .string()
+        .describe(
+          "The prompt to generate a video from, including the dialogue and sounds to hear"
+        ),
+      negativePrompt: z
+        .string()
+        .optional()
+        .describe("What the video should not show"),
+      image: mediaInputParameter(
+        "The first frame of the video, for image-to-video"
+      ).optional(),
+      aspectRatio: z
+        .enum(["16:9", "9:16"])
+        .optional()
+        .default("16:9")
+        .describe("The aspect ratio of the video, defaults to '16:9'"),
+      resolution: z
+        .enum(["720p", "1080p"])
+        .optional()
+        .default("720p")
+        .describe(
+          "The resolution of the video, 1080p is only available in 16:9, defaults to '720p'"
+        ),
+      generateAudio: z
+        .boolean()
+        .optional()
+        .default(true)
+        .describe(
+          "Whether to generate the speech, music and sounds of the video, defaults to true"
+        ),
+      seed: z
+        .number()
+        .int()
+        .min(0)
+        .optional()
+        .describe("The seed, to reproduce a video, random if not provided"),
+      model: z
+        .enum(["veo3", "veo3Fast"])
+        .optional()
+        .default("veo3")
+        .describe(
+          "The model to use, 'veo3Fast' is faster and cheaper but less detailed, defaults to 'veo3'"
+        ),
+      wait: waitParameter(),
+    }),
+    execute: async (args, { log, reportProgress }) => {
+      if (!args.prompt) {
+        throw new UserError("Prompt is required");
+      }
+      if (args.resolution === "1080p" && args.aspectRatio !== "16:9") {
+        throw new UserError("1080p is only available in 16:9");
+      }
+      const config = VEO3_MODEL_CONFIG[args.model];
+
+      const image = await resolveMediaInput(
+        "image",
+        args.image,
+        MEDIA_INPUT_LIMITS.image
+      );
+
+      const requestBody = JSON.stringify({
+        model: "veo3",
+        task_type: args.model === "veo3" ? "veo3-video" : "veo3-video-fast",
+        input: {
+          prompt: args.prompt,
+          negative_prompt: args.negativePrompt,
+          image_url: image,
+          aspect_ratio: args.aspectRatio,
+          resolution: args.resolution,
+          generate_audio: args.generateAudio,
+          seed: args.seed,
+        },
+      });
+
+      return await handleTask(
+        log,
+        reportProgress,
+        requestBody,
+        config,
+        args.wait,
+        formatVeo3Result
+      );
+    },
+  });
+}
+
+const SEEDANCE_MODEL_CONFIG: Record<string, BaseConfig> = {
+  pro: { pollInterval: 15, timeout: 900 },
+  lite: { pollInterval: 10, timeout: 600 },
+};
+
+function registerSeedanceTool(server: ToolServer) {
+  server.addTool({
+    name: "generate_video_seedance",
+    description: "Generate a video using ByteDance Seedance, from text or an image",
+    parameters: z.object({
+      prompt: z.string().describe("The prompt to generate a video from"),
+      image: mediaInputParameter(
+        "The first frame of the video, for image-to-video"
+      ).optional(),
+      duration: z
+        .enum(["5s", "10s"])
+        .optional()
+        .default("5s")
+        .describe("The duration of the video, defaults to 5 seconds"),
+      aspectRatio: z
+        .enum(["21:9", "16:9", "4:3", "1:1", "3:4", "9:16"])
+        .optional()
+        .describe(
+          "The aspect ratio of a text-to-video, image-to-video follows the image, defaults to '16:9'"
+        ),
+      resolution: z
+        .enum(["480p", "720p", "1080p"])
+        .optional()
+        .default("720p")
+        .describe("The resolution of the video, defaults to '720p'"),
+      model: z
+        .enum(["pro", "lite"])
+        .optional()
+        .default("pro")
+        .describe(
+          "The model to use, 'lite' is faster and cheaper but less detailed, defaults to 'pro'"
+        ),
+      wait: waitParameter(),
+    }),
+    execute: async (args, { log, reportProgress }) => {
+      if (!args.prompt) {
+        throw new UserError("Prompt is required");
+      }
+      if (args.image && args.aspectRatio) {
+        throw new UserError(
+          "aspectRatio is only available for text-to-video, image-to-video follows the image"
+        );
+      }
+      const config = SEEDANCE_MODEL_CONFIG[args.model];
+
+      const image = await resolveMediaInput(
+        "image",
+        args.image,
+        MEDIA_INPUT_LIMITS.image
+      );
+
+      const requestBody = JSON.stringify({
+        model: "seedance",
+        task_type: `seedance-1-${args.model}`,
+        input: {
+          prompt: args.prompt,
+          image_url: image,
+          duration: args.duration === "5s" ? 5 : 10,
+          aspect_ratio: args.aspectRatio,
+          resolution: args.resolution,
+        },
+      });
+
+      return await handleTask(
+        log,
+        reportProgress,
+        requestBody,
+        config,
+        args.wait,
+        formatSeedanceResult
+      );
+    },
+  });
+}
+
+const FRAMEPACK_MODEL_CONFIG: Record<string, BaseConfig> = {
+  framepack: { pollInterval: 15, timeout: 1200 },
+};
+
+function registerFramePackTool(server: ToolServer) {
+  server.addTool({
+    name: "generate_video_framepack",
+    description:
+      "Generate a video from a start frame, and optionally an end frame, using Qubico FramePack",
+    parameters: z.object({
+      prompt: z.string().describe("The prompt to generate a video from"),
+      startImage: mediaInputParameter("The first frame of the video"),
+      endImage: mediaInputParameter("The last frame of the video").optional(),
+      duration: z
+        .number()
+        .int()
+        .min(1)
+        .max(60)
+        .optional()
+        .default(5)
+        .describe("The duration of the video in seconds, up to 60, defaults to 5"),
+      wait: waitParameter(),
+    }),
+    execute: async (args, { log, reportProgress }) => {
+      if (!args.prompt) {
+        throw new UserError("Prompt is required");
+      }
+      const config = FRAMEPACK_MODEL_CONFIG["framepack"];
+
+      const startImage = await resolveMediaInput(
+        "startImage",
+        args.startImage,
+        MEDIA_INPUT_LIMITS.image
+      );
+      const endImage = await resolveMediaInput(
+        "endImage",
+        args.endImage,
+        MEDIA_INPUT_LIMITS.image
+      );
+
+      const requestBody = JSON.stringify({
+        model: "Qubico/framepack",
+        task_type: "img2video",
+        input: {
+          prompt: args.prompt,
+          start_image: startImage,
+          end_image: endImage,
+          duration: args.duration,
+        },
+      });
+
+      return await handleTask(
+        log,
+        reportProgress,
+        requestBody,
+        config,
+        args.wait,
+        formatFramePackResult
+      );
+    },
+  });
+}
+
+// PiAPI HTTP client
+
+const HTTP_MAX_RETRIES = 4;
+const HTTP_RETRY_BASE_DELAY = 1; // in seconds
+const HTTP_RETRY_MAX_DELAY = 30; // in seconds
+const HTTP_MAX_RETRY_AFTER = 120; // in seconds
+
+// Connection errors raised before a request was sent, which are safe to
+// retry even for task creation
+const UNSENT_ERROR_CODES = new Set([
+  "ECONNREFUSED",
+  "ENOTFOUND",
+  "EAI_AGAIN",
+  "EHOSTUNREACH",
+  "ENETUNREACH",
+  "UND_ERR_CONNECT_TIMEOUT",
+]);
+
+interface PiAPIResponse {
+  code: number;
+  data?: any;
+  message?: string;
+}
+
+interface PiAPIRequest {
+  method?: "GET" | "POST" | "DELETE";
+  apiKey: string;
+  body?: string;
+  signal?: AbortSignal;
+  // Whether repeating the request is harmless even if PiAPI received it
+  idempotent: boolean;
+}
+
+class PiAPITimeoutError extends Error {}
+
+// Sends a request to PiAPI, retrying network errors, 5xx and 429 with
+// exponential backoff. Requests that are not idempotent are only retried when
+// they never reached PiAPI or were rate limited. The path is relative to the
+// API base URL unless it is a URL itself
+async function requestPiAPI(
+  path: string,
+  { method = "GET", apiKey, body, signal, idempotent }: PiAPIRequest
+): Promise<PiAPIResponse> {
+  for (let attempt = 0; ; attempt++) {
+    signal?.throwIfAborted();
+
+    let response: Awaited<ReturnType<typeof sendPiAPIRequest>>;
+    try {
+      response = await sendPiAPIRequest(path, method, apiKey, body, signal);
+    } catch (error) {
+      if (signal?.aborted) {
+        throw error;
+      }
+      const failure = describeRequestError(error);
+      if (!(idempotent || isUnsentError(error)) || attempt >= HTTP_MAX_RETRIES) {
+        throw new UserError(`PiAPI ${method} ${path} failed: ${failure}`);
+      }
+      await waitForRetry(method, path, failure, attempt, undefined, signal);
+      continue;
+    }
+
+    const { status, statusText, headers, text } = response;
+    const retryable = status === 429 || (status >= 500 && idempotent);
+    if (!retryable || attempt >= HTTP_MAX_RETRIES) {
+      return parsePiAPIResponse(method, path, status, statusText, text);
+    }
+    await waitForRetry(
+      method,
+      path,
+      `HTTP ${status} ${statusText}`,
+      attempt,
+      parseRetryAfter(headers.get("retry-after")),
+      signal
+    );
+  }
+}
+
+// Waits for the Retry-After of the response, or an exponential backoff with
+// full jitter
+async function waitForRetry(
+  method: string,
+  path: string,
+  failure: string,
+  attempt: number,
+  retryAfter: number | undefined,
+  signal?: AbortSignal
+) {
+  const wait =
+    retryAfter ??
+    Math.random() *
+      Math.min(HTTP_RETRY_MAX_DELAY, HTTP_RETRY_BASE_DELAY * 2 ** attempt);
+  logger.warn(
+    `PiAPI ${method} ${path} failed (${failure}), retrying in ${wait.toFixed(1)}s (retry ${attempt + 1}/${HTTP_MAX_RETRIES})`
+  );
+  await delay(wait * 1000, undefined, { signal });
+}
+
+// Sends a single request and reads its body, giving up after the request
+// timeout
+async function sendPiAPIRequest(
+  path: string,
+  method: string,
+  apiKey: string,
+  body: string | undefined,
+  signal?: AbortSignal
+) {
+  const controller = new AbortController();
+  const abort = () => controller.abort(signal?.reason);
+  signal?.addEventListener("abort", abort);
+  const timer = setTimeout(
+    () => controller.abort(new PiAPITimeoutError(`No response within ${requestTimeout}s`)),
+    requestTimeout * 1000
+  );
+  try {
+    const url = /^https?:\/\//.test(path) ? path : `${apiBaseUrl}${path}`;
+    const response = await fetch(url, {
+      method,
+      headers: {
+        "X-API-Key": apiKey,
+        Accept: "application/json",
+        ...(body !== undefined && { "Content-Type": "application/json" }),
+      },
+      body,
+      signal: controller.signal,
+    });
+    return {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+      text: await response.text(),
+    };
+  } catch (error) {
+    throw controller.signal.reason instanceof PiAPITimeoutError
+      ? controller.signal.reason
+      : error;
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener("abort", abort);
+  }
+}
+
+function parsePiAPIResponse(
+  method: string,
+  path: string,
+  status: number,
+  statusText: string,
+  text: string
+): PiAPIResponse {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    data = undefined;
+  }
+  if (typeof data !== "object" || data === null) {
+    const excerpt = text.replace(/\s+/g, " ").trim().slice(0, 200);
+    throw new UserError(
+      `PiAPI ${method} ${path} returned a non-JSON response (HTTP ${status} ${statusText}): ${excerpt || "empty body"}`
+    );
+  }
+
+  const response = data as Partial<PiAPIResponse>;
+  return {
+    ...response,
+    // Error pages may have a JSON body without PiAPI's code
+    code: response.code ?? status,
+    message: response.message ?? (status >= 400 ? `HTTP ${status} ${statusText}` : undefined),
+  };
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const seconds = /^\d+$/.test(value.trim())
+    ? parseInt(value)
+    : (Date.parse(value) - Date.now()) / 1000;
+  if (isNaN(seconds)) {
+    return undefined;
+  }
+  return Math.min(Math.max(seconds, 0), HTTP_MAX_RETRY_AFTER);
+}
+
+// fetch rejects with "fetch failed" and the actual network error as cause
+function isUnsentError(error: unknown): boolean {
+  const code = (error as { cause?: { code?: string } })?.cause?.code;
+  return code !== undefined && UNSENT_ERROR_CODES.has(code);
+}
+
+function describeRequestError(error: unknown): string {
+  if (!(error instanceof Error)) {
+    return String(error);
+  }
+  const cause = error.cause as { code?: string; message?: string } | undefined;
+  return cause?.message || cause?.code || error.message;
+}
+
+// Task handler
+interface TaskData {
+  task_id: string;
+  model: string;
+  task_type: string;
+  status: string;
+  output: unknown;
+  progress?: number;
+  error?: { message?: string };
+  meta?: { usage?: { consume?: string } };
+}
+
+class TaskTimeoutError extends UserError {}
+
+const POLL_INITIAL_INTERVAL = 1; // in seconds
+const POLL_BACKOFF_FACTOR = 1.5;
+
+// The MCP request a tool or resource is currently executing for
+interface RequestContext {
+  signal?: AbortSignal;
+  toolName?: string;
+  apiKey?: string;
+}
+
+const requestContextStorage = new AsyncLocalStorage<RequestContext>();
+
+// HTTP sessions authenticate with their own PiAPI API key in this header
+const API_KEY_HEADER = "x-piapi-key";
+
+type SessionAuth = { apiKey: string };
+
+type ToolServer = Pick<FastMCP<SessionAuth>, "addTool">;
+
+function readApiKeyHeader(headers?: IncomingHttpHeaders): string | undefined {
+  const value = headers?.[API_KEY_HEADER];
+  return (Array.isArray(value) ? value[0] : value)?.trim() || undefined;
+}
+
+// FastMCP authenticates every HTTP request, so keys are checked with PiAPI
+// once in a while rather than every time
+const API_KEY_CHECK_TTL = 300; // in seconds
+const API_KEY_CHECK_MAX_ENTRIES = 1000;
+
+const apiKeyChecks = new Map<string, { valid: boolean; checkedAt: number }>();
+
+// Called by FastMCP for every httpStream request, rejecting the ones without
+// an API key or with a key PiAPI refuses
+async function authenticateSession(
+  request: IncomingMessage
+): Promise<SessionAuth> {
+  const apiKey = readApiKeyHeader(request.headers);
+  if (!apiKey) {
+    throw new Response(null, {
+      status: 401,
+      statusText: `Missing ${API_KEY_HEADER} header`,
+    });
+  }
+  if (!(await checkApiKey(apiKey))) {
+    throw new Response(null, {
+      status: 401,
+      statusText: "Invalid PiAPI API key",
+    });
+  }
+  return { apiKey };
+}
+
+// Whether PiAPI accepts the key, asking its account endpoint, the cheapest
+// authenticated call it has
+async function checkApiKey(apiKey: string): Promise<boolean> {
+  const owner = apiKeyOwner(apiKey);
+  const cached = apiKeyChecks.get(owner);
+  if (cached && Date.now() - cached.checkedAt < API_KEY_CHECK_TTL * 1000) {
+    return cached.valid;
+  }
+
+  let code: number;
+  try {
+    ({ code } = await requestPiAPI("/account/info", { apiKey, idempotent: true }));
+  } catch (error) {
+    logger.warn(
+      `Could not check API key: ${error instanceof Error ? error.message : String(error)}`
+    );
+    throw new Response(null, {
+      status: 503,
+      statusText: "Could not check the PiAPI API key",
+    });
+  }
+  if (code !== 200 && code !== 401 && code !== 403) {
+    logger.warn(`Could not check API key: PiAPI answered with code ${code}`);
+    throw new Response(null, {
+      status: 503,
+      statusText: "Could not check the PiAPI API key",
+    });
+  }
+
+  // Oldest checks go first once the cache is full
+  apiKeyChecks.delete(owner);
+  if (apiKeyChecks.size >= API_KEY_CHECK_MAX_ENTRIES) {
+    apiKeyChecks.delete(apiKeyChecks.keys().next().value!);
+  }
+  apiKeyChecks.set(owner, { valid: code === 200, checkedAt: Date.now() });
+  return code === 200;
+}
+
+// Identifies who a task belongs to without storing the API key itself
+function apiKeyOwner(apiKey: string): string {
+  return createHash("sha256").update(apiKey).digest("hex");
+}
+
+// Declares the output schema of every tool and runs it with the abort signal,
+// name and API key of its call available through getRequestSignal(),
+// getRequestToolName() and getRequestApiKey()
+function withRequestContext(server: FastMCP<SessionAuth>): ToolServer {
+  return {
+    addTool: (tool) => {
+      server.addTool({
+        ...tool,
+        outputSchema: toolOutputSchema(tool.name),
+        execute: (args, context) =>
+          requestContextStorage.run(
+            {
+              signal: context.signal,
+              toolName: tool.name,
+              apiKey: context.session?.apiKey,
+            },
+            () => tool.execute(args, context)
+          ),
+      });
+    },
+  };
+}
+
+function getRequestSignal(): AbortSignal | undefined {
+  return requestContextStorage.getStore()?.signal;
+}
+
+function getRequestToolName(): string | undefined {
+  return requestContextStorage.getStore()?.toolName;
+}
+
+// The API key of the HTTP session making the request, or PIAPI_API_KEY when
+// serving over stdio
+function getRequestApiKey(
+  sessionApiKey: string | undefined = requestContextStorage.getStore()?.apiKey
+): string {
+  const apiKey =
+    sessionApiKey || (transportType === "stdio" ? envApiKey : undefined);
+  if (!apiKey) {
+    throw new UserError(
+      `PiAPI API key not set, send it in the ${API_KEY_HEADER} header`
+    );
+  }
+  return apiKey;
+}
+
+async function handleTask(
+  log: any,
+  reportProgress: (progress: Progress) => Promise<void>,
+  requestBody: string,
+  config: BaseConfig,
+  wait: boolean,
+  formatResult: TaskResultFormatter,
+  preview: boolean = false,
+  signal: AbortSignal | undefined = getRequestSignal(),
+  apiKey: string = getRequestApiKey()
+): Promise<ContentResult> {
+  const taskId = await createTask(
+    requestBody,
+    getRequestToolName() || "unknown",
+    apiKey,
+    signal
+  );
+  log.info(`Task created with ID: ${taskId}`);
+
+  if (!wait) {
+    const { model, task_type } = JSON.parse(requestBody);
+    return {
+      content: [
+        {
+          type: "text",
+          text: `TaskId: ${taskId}\nTask submitted successfully!\nUse get_task or wait_for_task with this TaskId to get the result, or subscribe to ${taskResourceUri(taskId)}`,
+        },
+      ],
+      structuredContent: {
+        taskId,
+        model,
+        task_type,
+        status: "pending",
+        assets: [],
+      } satisfies TaskOutput,
+    };
+  }
+
+  try {
+    const result = await getTaskResult(
+      log,
+      reportProgress,
+      taskId,
+      apiKey,
+      config.pollInterval,
+      config.timeout,
+      signal
+    );
+    return completeTask(result, formatResult, log, preview);
+  } catch (error) {
+    if (signal?.aborted) {
+      // The client gave up on the request, stop the task from using more credits
+      logger.warn(`Request for task ${taskId} was aborted, cancelling task`);
+      const { message } = await cancelTask(taskId, apiKey).catch((err) => ({
+        message: err instanceof Error ? err.message : String(err),
+      }));
+      logger.info(`Task ${taskId} cancellation: ${message}`);
+    }
+    throw error;
+  }
+}
+
+async function createTask(
+  requestBody: string,
+  toolName: string,
+  apiKey: string,
+  signal?: AbortSignal
+) {
+  // A task created by a request that timed out or failed with 5xx would be
+  // paid for twice if created again, so only retry unsent requests
+  const createData = await requestPiAPI("/api/v1/task", {
+    method: "POST",
+    apiKey,
+    body: requestBody,
+    signal,
+    idempotent: false,
+  });
+
+  if (createData.code !== 200) {
+    throw new UserError(`Task creation failed: ${createData.message}`);
+  }
+
+  const taskId: string = createData.data.task_id;
+  taskLedger.recordCreated(taskId, toolName, requestBody, apiKeyOwner(apiKey));
+  return taskId;
+}
+
+async function getTask(
+  taskId: string,
+  apiKey: string,
+  signal?: AbortSignal
+): Promise<TaskData> {
+  const statusData = await requestPiAPI(`/api/v1/task/${taskId}`, {
+    apiKey,
+    signal,
+    idempotent: true,
+  });
+
+  if (statusData.code !== 200) {
+    logger.error(`Status check failed for task ${taskId}: ${statusData.message}`);
+    throw new UserError(
+      `TaskId: ${taskId}, Status check failed: ${statusData.message}`
+    );
+  }
+
+  taskLedger.recordStatus(statusData.data);
+  publishTaskStatus(statusData.data);
+  return statusData.data;
+}
+
+async function cancelTask(
+  taskId: string,
+  apiKey: string,
+  signal?: AbortSignal
+): Promise<{ cancelled: boolean; message: string }> {
+  const cancelData = await requestPiAPI(`/api/v1/task/${taskId}`, {
+    method: "DELETE",
+    apiKey,
+    signal,
+    idempotent: true,
+  });
+
+  return {
+    cancelled: cancelData.code === 200,
+    message: cancelData.message || "Unknown error",
+  };
+}
+
+async function getTaskResult(
+  log: any,
+  reportProgress: (progress: Progress) => Promise<void>,
+  taskId: string,
+  apiKey: string,
+  pollInterval: number,
+  timeout: number,
+  signal?: AbortSignal
+): Promise<CompletedTask> {
+  // Use environment-specific logger, fallback to provided log if exists
+  const useLogger = log || logger;
+  const deadline = Date.now() + timeout * 1000;
+  let lastReported: string | undefined;
+
+  for (let attempt = 0; ; attempt++) {
+    signal?.throwIfAborted();
+    useLogger.info(`Checking task ${taskId} status (attempt ${attempt + 1})...`);
+
+    const { model, task_type, status, output, error, progress, meta } = await getTask(
+      taskId,
+      apiKey,
+      signal
+    );
+
+    useLogger.info(`Task ${taskId} status: ${status}`);
+    
+    // Safely check if progress property exists
+    if (status === "in_progress" && progress !== undefined) {
+      useLogger.info(`Task ${taskId} progress: ${progress}%`);
+    }
+
+    // Only notify when something changed, clients render every notification
+    const message = `Status: ${status}${progress !== undefined ? `, ${progress}%` : ""}`;
+    if (message !== lastReported) {
+      lastReported = message;
+      // A client gone mid-task must not stop the polling
+      try {
+        await reportProgress({
+          progress: status === "completed" ? 100 : progress ?? 0,
+          total: 100,
+          message,
+        });
+      } catch (err) {
+        useLogger.warn(
+          `Could not report the progress of task ${taskId}: ${err instanceof Error ? err.message : String(err)}`
+        );
+      }
+    }
+
+    if (status === "completed") {
+      if (!output) {
+        useLogger.error(`Task ${taskId} completed but no output found`);
+        throw new UserError(
+          `TaskId: ${taskId}, Task completed but no output found`
+        );
+      }
+      const usage = meta?.usage?.consume || "unknown";
+      useLogger.info(`Task ${taskId} completed successfully. Usage: ${usage}`);
+      
+      // Don't log huge JSON objects that might crash the console
+      try {
+        const outputStr = JSON.stringify(output);
+        if (outputStr.length < 1000) {
+          useLogger.debug(`Task ${taskId} output: ${outputStr}`);
+        } else {
+          useLogger.debug(`Task ${taskId} output: [Large output, length: ${outputStr.length} chars]`);
+        }
+      } catch (err) {
+        useLogger.debug(
+          `Task ${taskId} output: [Could not stringify output: ${err instanceof Error ? err.message : String(err)}]`
+        );
+      }
+
+      return { taskId, model, taskType: task_type, usage, output };
+    }
+
+    if (status === "failed") {
+      useLogger.error(`Task ${taskId} failed: ${error?.message || "Unknown error"}`);
+      throw new UserError(
+        `TaskId: ${taskId}, Generation failed: ${error?.message || "Unknown error"}`
+      );
+    }
+
+    const remaining = deadline - Date.now();
+    if (remaining <= 0) {
+      break;
+    }
+    // Poll quickly at first so short jobs return right away, then back off
+    // up to the model's poll interval for long ones
+    const interval = Math.min(
+      POLL_INITIAL_INTERVAL * POLL_BACKOFF_FACTOR ** attempt,
+      pollInterval
+    );
+    await delay(Math.min(interval * 1000, remaining), undefined, { signal });
+  }
+
+  logger.error(`Task ${taskId} timed out after ${timeout} seconds`);
+  throw new TaskTimeoutError(
+    `TaskId: ${taskId}, Generation timed out after ${timeout} seconds`
+  );
+}
+
+interface CompletedTask {
+  taskId: string;
+  model: string;
+  taskType: string;
+  usage: string;
+  output: unknown;
+}
+
+async function completeTask(
+  { taskId, model, taskType, usage, output }: CompletedTask,
+  formatResult: TaskResultFormatter,
+  log?: any,
+  preview: boolean = false
+): Promise<ContentResult> {
+  let result: TaskResult;
+  try {
+    result = formatResult(taskId, usage, output, log);
+    taskLedger.recordResult(
+      taskId,
+      usage,
+      result.assets.map((asset) => asset.url)
+    );
+  } catch (error) {
+    taskLedger.recordError(
+      taskId,
+      error instanceof Error ? error.message : String(error)
+    );
+    throw error;
+  }
+
+  let { content, assets, texts } = result;
+  if (outputDir && assets.length > 0) {
+    const files = await saveMedia(
+      taskId,
+      assets.map((asset) => asset.url),
+      getRequestSignal(),
+      log
+    );
+    assets = assets.map((asset, i) =>
+      files[i].path ? { ...asset, path: files[i].path } : asset
+    );
+    content = [...content, { type: "text", text: formatSavedMedia(files) }];
+  }
+  if (preview) {
+    content = [...content, ...(await previewAssets(assets, log))];
+  }
+  return {
+    content,
+    structuredContent: {
+      taskId,
+      model,
+      task_type: taskType,
+      status: "completed",
+      usage,
+      assets,
+      texts,
+    } satisfies TaskOutput,
+  };
+}
+
+function formatTaskStatus(task: TaskData): string {
+  const progress =
+    task.progress !== undefined ? `\nProgress: ${task.progress}%` : "";
+  return `TaskId: ${task.task_id}\nModel: ${task.model}\nTask type: ${task.task_type}\nStatus: ${task.status}${progress}`;
+}
+
+// Media inputs
+
+interface MediaLimits {
+  mimeTypes: string[];
+  maxSize: number; // in MB
+}
+
+const IMAGE_MIME_TYPES = ["image/jpeg", "image/png", "image/webp"];
+
+// What each model accepts for the inputs uploaded by the server, inputs given
+// as URLs are passed to PiAPI as they are
+const MEDIA_INPUT_LIMITS = {
+  image: { mimeTypes: IMAGE_MIME_TYPES, maxSize: 10 },
+  video: {
+    mimeTypes: ["video/mp4", "video/quicktime", "video/webm"],
+    maxSize: 50,
+  },
+  audio: {
+    mimeTypes: ["audio/mpeg", "audio/wav", "audio/x-wav", "audio/mp4"],
+    maxSize: 10,
+  },
+  kling: { mimeTypes: ["image/jpeg", "image/png"], maxSize: 10 },
+  klingAudio: {
+    mimeTypes: [
+      "audio/mpeg",
+      "audio/wav",
+      "audio/x-wav",
+      "audio/aac",
+      "audio/mp4",
+    ],
+    maxSize: 5,
+  },
+  luma: { mimeTypes: IMAGE_MIME_TYPES, maxSize: 10 },
+  trellis: { mimeTypes: ["image/jpeg", "image/png"], maxSize: 10 },
+  hailuo: { mimeTypes: IMAGE_MIME_TYPES, maxSize: 20 },
+  midjourney: { mimeTypes: IMAGE_MIME_TYPES, maxSize: 10 },
+  gpt4oImage: { mimeTypes: IMAGE_MIME_TYPES, maxSize: 25 },
+  ideogram: { mimeTypes: IMAGE_MIME_TYPES, maxSize: 10 },
+  mask: { mimeTypes: ["image/png"], maxSize: 10 },
+} satisfies Record<string, MediaLimits>;
+
+// Turns a media input into a URL PiAPI can fetch, uploading data: URIs and
+// local files after checking they fit the limits of the model
+async function resolveMediaInput<T extends string | undefined>(
+  name: string,
+  value: T,
+  limits: MediaLimits,
+  signal: AbortSignal | undefined = getRequestSignal(),
+  apiKey: string = getRequestApiKey()
+): Promise<T> {
+  if (!value || /^https?:\/\//i.test(value)) {
+    return value;
+  }
+
+  const { fileName, mimeType, data } = value.startsWith("data:")
+    ? parseDataUri(name, value)
+    : await readMediaFile(name, value);
+  checkMediaLimits(name, mimeType, data, limits);
+  return (await uploadMedia(fileName, data, apiKey, signal)) as T;
+}
+
+async function resolveMediaInputs(
+  name: string,
+  values: string[] | undefined,
+  limits: MediaLimits
+): Promise<string[] | undefined> {
+  if (!values) {
+    return undefined;
+  }
+  const urls: string[] = [];
+  for (const [i, value] of values.entries()) {
+    urls.push(await resolveMediaInput(`${name}[${i}]`, value, limits));
+  }
+  return urls;
+}
+
+// The content of a media input, for the APIs that take files inline
+async function readMediaInput(
+  name: string,
+  value: string,
+  limits: MediaLimits,
+  signal: AbortSignal | undefined = getRequestSignal()
+): Promise<Buffer> {
+  let mimeType: string;
+  let data: Buffer;
+  if (/^https?:\/\//i.test(value)) {
+    const media = await fetchMedia(value, signal).catch((error) => {
+      throw new UserError(`${name} could not be downloaded: ${describeRequestError(error)}`);
+    });
+    mimeType = media.contentType?.split(";")[0].trim().toLowerCase() ?? "";
+    data = media.data;
+  } else {
+    ({ mimeType, data } = value.startsWith("data:")
+      ? parseDataUri(name, value)
+      : await readMediaFile(name, value));
+  }
+  checkMediaLimits(name, mimeType, data, limits);
+  return data;
+}
+
+function checkMediaLimits(
+  name: string,
+  mimeType: string,
+  data: Buffer,
+  limits: MediaLimits
+) {
+  if (!limits.mimeTypes.includes(mimeType)) {
+    throw new UserError(
+      `${name} must be one of ${limits.mimeTypes.join(", ")}, got ${mimeType}`
+    );
+  }
+  if (data.length > limits.maxSize * 1024 * 1024) {
+    throw new UserError(
+      `${name} must be at most ${limits.maxSize} MB, got ${(data.length / 1024 / 1024).toFixed(1)} MB`
+    );
+  }
+}
+
+function parseDataUri(name: string, value: string) {
+  const match = value.match(/^data:([^;,]+)((?:;[^;,]*)*),(.*)$/s);
+  if (!match) {
+    throw new UserError(`${name} is not a valid data: URI`);
+  }
+  const mimeType = match[1].toLowerCase();
+  const data = match[2].split(";").includes("base64")
+    ? Buffer.from(match[3], "base64")
+    : Buffer.from(decodeURIComponent(match[3]));
+  return {
+    fileName: `${name}${MEDIA_EXTENSIONS[mimeType] ?? ""}`,
+    mimeType,
+    data,
+  };
+}
+
+// Any file readable by the server could be uploaded, so only the local user
+// of a stdio server may use them
+async function readMediaFile(name: string, value: string) {
+  if (transportType !== "stdio") {
+    throw new UserError(
+      `${name} must be a URL or a data: URI, local files are only supported over stdio`
+    );
+  }
+  const filePath = resolve(value.replace(/^~(?=$|\/)/, homedir()));
+  const extension = extname(filePath).toLowerCase().replace(/^\.jpeg$/, ".jpg");
+  const mimeType = Object.keys(MEDIA_EXTENSIONS).find(
+    (type) => MEDIA_EXTENSIONS[type] === extension
+  );
+  if (!mimeType) {
+    throw new UserError(`${name} has an unsupported file type: ${filePath}`);
+  }
+  const data = await readFile(filePath).catch((error) => {
+    throw new UserError(`${name} could not be read: ${error.message}`);
+  });
+  return { fileName: basename(filePath), mimeType, data };
+}
+
+async function uploadMedia(
+  fileName: string,
+  data: Buffer,
+  apiKey: string,
+  signal?: AbortSignal
+): Promise<string> {
+  // Uploading twice only leaves an unused file behind until it expires
+  const uploadData = await requestPiAPI(uploadUrl, {
+    method: "POST",
+    apiKey,
+    body: JSON.stringify({ file_name: fileName, file_data: data.toString("base64") }),
+    signal,
+    idempotent: true,
+  });
+
+  if (uploadData.code !== 200 || !uploadData.data?.url) {
+    throw new UserError(
+      `Upload of ${fileName} failed: ${uploadData.message || "no url returned"}`
+    );
+  }
+  logger.info(`Uploaded ${fileName} to ${uploadData.data.url}`);
+  return uploadData.data.url;
+}
+
+// Media downloads
+
+const DOWNLOAD_TIMEOUT = 300; // in seconds
+
+// Extensions of the media types PiAPI serves, for urls without one
+const MEDIA_EXTENSIONS: Record<string, string> = {
+  "image/png": ".png",
+  "image/jpeg": ".jpg",
+  "image/webp": ".webp",
+  "image/gif": ".gif",
+  "video/mp4": ".mp4",
+  "video/webm": ".webm",
+  "video/quicktime": ".mov",
+  "audio/mpeg": ".mp3",
+  "audio/mp4": ".m4a",
+  "audio/wav": ".wav",
+  "audio/x-wav": ".wav",
+  "audio/flac": ".flac",
+  "audio/aac": ".aac",
+  "model/gltf-binary": ".glb",
+};
+
+interface SavedMedia {
+  url: string;
+  path?: string;
+  error?: string;
+}
+
+// Downloads media to a folder of the output directory, named by the hash of
+// their content so saving the same media again does not duplicate it. Media
+// that cannot be downloaded are reported with their error instead
+async function saveMedia(
+  folder: string,
+  urls: string[],
+  signal?: AbortSignal,
+  log?: any
+): Promise<SavedMedia[]> {
+  const useLogger = log || logger;
+  if (!outputDir) {
+    throw new UserError(
+      "Output directory not set, start the server with --output-dir or PIAPI_OUTPUT_DIR"
+    );
+  }
+
+  const dir = join(outputDir, folder.replace(/[^\w.-]/g, "_").replace(/^\.+/, "_"));
+  const files: SavedMedia[] = [];
+  // One at a time, videos can be large
+  for (const url of urls) {
+    try {
+      const path = await downloadMedia(url, dir, signal);
+      useLogger.info(`Saved ${url} to ${path}`);
+      files.push({ url, path });
+    } catch (error) {
+      if (signal?.aborted) {
+        throw error;
+      }
+      const message = describeRequestError(error);
+      useLogger.warn(`Could not save ${url}: ${message}`);
+      files.push({ url, error: message });
+    }
+  }
+  return files;
+}
+
+async function downloadMedia(
+  url: string,
+  dir: string,
+  signal?: AbortSignal
+): Promise<string> {
+  const { data, contentType } = await fetchMedia(url, signal);
+  const hash = createHash("sha256").update(data).digest("hex");
+  const filePath = join(dir, `${hash.slice(0, 16)}${mediaExtension(url, contentType)}`);
+  if (!existsSync(filePath)) {
+    await mkdir(dir, { recursive: true });
+    const tempPath = `${filePath}.tmp`;
+    await writeFile(tempPath, data);
+    await rename(tempPath, filePath);
+  }
+  return filePath;
+}
+
+async function fetchMedia(
+  url: string,
+  signal?: AbortSignal
+): Promise<{ data: Buffer; contentType: string | null }> {
+  const controller = new AbortController();
+  const abort = () => controller.abort(signal?.reason);
+  signal?.addEventListener("abort", abort);
+  const timeoutError = new Error(`Not downloaded within ${DOWNLOAD_TIMEOUT}s`);
+  const timer = setTimeout(
+    () => controller.abort(timeoutError),
+    DOWNLOAD_TIMEOUT * 1000
+  );
+  try {
+    const response = await fetch(url, { signal: controller.signal });
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status} ${response.statusText}`);
+    }
+    return {
+      data: Buffer.from(await response.arrayBuffer()),
+      contentType: response.headers.get("content-type"),
+    };
+  } catch (error) {
+    throw controller.signal.reason === timeoutError ? timeoutError : error;
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener("abort", abort);
+  }
+}
+
+function mediaExtension(url: string, contentType: string | null): string {
+  const extension = extname(new URL(url).pathname).toLowerCase();
+  if (/^\.[a-z0-9]{1,5}$/.test(extension)) {
+    return extension;
+  }
+  return MEDIA_EXTENSIONS[contentType?.split(";")[0].trim() ?? ""] ?? "";
+}
+
+function formatSavedMedia(files: SavedMedia[]): string {
+  return `Saved files:\n${files
+    .map(({ url, path, error }) =>
+      path ? `${url} -> ${path}` : `${url} -> not saved: ${error}`
+    )
+    .join("\n")}`;
+}
+
+// Image previews
+
+// Midjourney returns a grid and its 4 images, more would flood the context
+const PREVIEW_MAX_IMAGES = 5;
+
+// Image content of the image assets of a task, saved ones are read from disk
+// instead of downloaded again. Images that cannot be previewed are reported
+// instead of failing the task
+async function previewAssets(assets: TaskAsset[], log?: any): Promise<Content[]> {
+  const useLogger = log || logger;
+  const content: Content[] = [];
+  const images = assets.filter((asset) => asset.kind === "image");
+  for (const image of images.slice(0, PREVIEW_MAX_IMAGES)) {
+    try {
+      content.push(
+        await previewImage(image.path ?? image.url, getRequestSignal())
+      );
+    } catch (error) {
+      if (getRequestSignal()?.aborted) {
+        throw error;
+      }
+      const message = describeRequestError(error);
+      useLogger.warn(`Could not preview ${image.url}: ${message}`);
+      content.push({
+        type: "text",
+        text: `Could not preview ${image.url}: ${message}`,
+      });
+    }
+  }
+  if (images.length > PREVIEW_MAX_IMAGES) {
+    content.push({
+      type: "text",
+      text: `Previewed the first ${PREVIEW_MAX_IMAGES} of ${images.length} images`,
+    });
+  }
+  return content;
+}
+
+// Images within the preview size are returned as they are, larger ones are
+// downscaled, keeping PNG for the ones with transparency
+async function previewImage(
+  source: string,
+  signal?: AbortSignal
+): Promise<ImageContent> {
+  const data = /^https?:\/\//.test(source)
+    ? (await fetchMedia(source, signal)).data
+    : await readFile(source);
+  const image = sharp(data);
+  const { format, width, height, hasAlpha } = await image.metadata().catch(() => {
+    throw new UserError(`${source} is not a supported image`);
+  });
+  if (
+    width &&
+    height &&
+    width <= previewMaxWidth &&
+    height <= previewMaxHeight &&
+    format &&
+    ["png", "jpeg", "webp", "gif"].includes(format)
+  ) {
+    return {
+      type: "image",
+      data: data.toString("base64"),
+      mimeType: `image/${format}`,
+    };
+  }
+
+  const resized = image.rotate().resize({
+    width: previewMaxWidth,
+    height: previewMaxHeight,
+    fit: "inside",
+    withoutEnlargement: true,
+  });
+  return hasAlpha
+    ? {
+        type: "image",
+        data: (await resized.png().toBuffer()).toString("base64"),
+        mimeType: "image/png",
+      }
+    : {
+        type: "image",
+        data: (await resized.jpeg({ quality: 85 }).toBuffer()).toString("base64"),
+        mimeType: "image/jpeg",
+      };
+}
+
+// Inpaint masks
+
+type MaskShape =
+  | { type: "rectangle"; x: number; y: number; width: number; height: number }
+  | { type: "polygon"; points: { x: number; y: number }[] };
+
+interface InpaintMask {
+  image?: string;
+  shapes?: MaskShape[];
+  taskId?: string;
+}
+
+// Flux fill-inpaint repaints the transparent area of its image, so the masked
+// area is cut out of the reference image before it is uploaded
+async function cutInpaintArea(
+  image: Buffer,
+  mask: InpaintMask,
+  signal: AbortSignal | undefined = getRequestSignal(),
+  apiKey: string = getRequestApiKey()
+): Promise<Buffer> {
+  const { width, height } = await sharp(image)
+    .metadata()
+    .catch(() => ({ width: undefined, height: undefined }));
+  if (!width || !height) {
+    throw new UserError("referenceImage is not a supported image");
+  }
+
+  const area = await maskArea(mask, width, height, signal, apiKey);
+  if (!area.some((value) => value >= 128)) {
+    throw new UserError("The mask does not cover any part of the image");
+  }
+  // sharp removes alpha after joining channels, drop it in a pass of its own
+  const { data, info } = await sharp(image)
+    .removeAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  const alpha = Buffer.from(area.map((value) => 255 - value));
+  return sharp(data, { raw: { width, height, channels: info.channels } })
+    .joinChannel(alpha, { raw: { width, height, channels: 1 } })
+    .png()
+    .toBuffer();
+}
+
+// The area to repaint as one 8-bit channel of the image size, 255 is repainted
+async function maskArea(
+  mask: InpaintMask,
+  width: number,
+  height: number,
+  signal: AbortSignal | undefined,
+  apiKey: string
+): Promise<Buffer> {
+  let name = "mask";
+  let source: Buffer;
+  if (mask.shapes) {
+    source = Buffer.from(maskShapesSvg(mask.shapes, width, height));
+  } else if (mask.taskId) {
+    name = "maskTaskId";
+    source = await readMediaInput(
+      name,
+      await segmentImageUrl(mask.taskId, apiKey, signal),
+      MEDIA_INPUT_LIMITS.image,
+      signal
+    );
+  } else {
+    source = await readMediaInput(
+      name,
+      mask.image!,
+      MEDIA_INPUT_LIMITS.image,
+      signal
+    );
+  }
+
+  const maskImage = sharp(source);
+  const { hasAlpha } = await maskImage.metadata().catch(() => {
+    throw new UserError(`${name} is not a supported image`);
+  });
+  // Segments and cutouts mark the area by opacity, shapes and masks saved
+  // with an opaque alpha channel by brightness
+  const byOpacity =
+    hasAlpha &&
+    !mask.shapes &&
+    (mask.taskId !== undefined || (await alphaVaries(source)));
+  const channel = byOpacity
+    ? maskImage.extractChannel("alpha")
+    : maskImage.greyscale().extractChannel(0);
+  return channel.resize(width, height, { fit: "fill" }).raw().toBuffer();
+}
+
+async function alphaVaries(image: Buffer): Promise<boolean> {
+  const { channels } = await sharp(image).stats();
+  const alpha = channels[channels.length - 1];
+  return alpha.min !== alpha.max;
+}
+
+function maskShapesSvg(shapes: MaskShape[], width: number, height: number) {
+  const elements = shapes.map((shape) =>
+    shape.type === "rectangle"
+      ? `<rect x="${shape.x}" y="${shape.y}" width="${shape.width}" height="${shape.height}"/>`
+      : `<polygon points="${shape.points.map((point) => `${point.x},${point.y}`).join(" ")}"/>`
+  );
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}"><rect width="100%" height="100%" fill="black"/><g fill="white">${elements.join("")}</g></svg>`;
+}
+
+async function segmentImageUrl(
+  taskId: string,
+  apiKey: string,
+  signal?: AbortSignal
+): Promise<string> {
+  const task = await getTask(taskId, apiKey, signal);
+  if (task.task_type !== "segment") {
+    throw new UserError(
+      `TaskId: ${taskId}, maskTaskId must be an image_segment task, got ${task.model} ${task.task_type}`
+    );
+  }
+  if (task.status !== "completed") {
+    throw new UserError(
+      `TaskId: ${taskId}, The segment task is not completed yet, status: ${task.status}`
+    );
+  }
+  return parseImageOutput(taskId, task.output)[0];
+}
+
+// Task ledger
+
+interface TaskRecord {
+  taskId: string;
+  // apiKeyOwner() of the API key the task was created with, only that key
+  // lists and reads the record
+  owner?: string;
+  toolName: string;
+  model: string;
+  taskType: string;
+  request: unknown;
+  status: string;
+  statusHistory: { status: string; progress?: number; at: string }[];
+  usage?: string;
+  urls: string[];
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface TaskRecordFilter {
+  owner: string;
+  toolName?: string;
+  status?: string;
+  since?: Date;
+  until?: Date;
+}
+
+interface TaskLedger {
+  recordCreated(
+    taskId: string,
+    toolName: string,
+    requestBody: string,
+    owner: string
+  ): void;
+  recordStatus(task: TaskData): void;
+  recordResult(taskId: string, usage: string, urls: string[]): void;
+  recordError(taskId: string, error: string): void;
+  get(taskId: string, owner: string): Promise<TaskRecord | undefined>;
+  list(filter: TaskRecordFilter): Promise<TaskRecord[]>;
+}
+
+// Stores task records in a JSON file keyed by task ID. Writes are queued so
+// concurrent tasks never interleave, and ledger failures never fail a task
+function createTaskLedger(filePath: string): TaskLedger {
+  let records: Record<string, TaskRecord> | undefined;
+  let queue: Promise<unknown> = Promise.resolve();
+
+  async function load(): Promise<Record<string, TaskRecord>> {
+    if (records) {
+      return records;
+    }
+    let data: string;
+    try {
+      data = await readFile(filePath, "utf8");
+    } catch (error) {
+      if (!isFileNotFoundError(error)) {
+        throw error;
+      }
+      return (records = {});
+    }
+    try {
+      records = JSON.parse(data);
+    } catch {
+      // Keep the unreadable ledger around instead of overwriting it
+      const backupPath = `${filePath}.${Date.now()}.bak`;
+      logger.error(`Task ledger ${filePath} is not valid JSON, moving it to ${backupPath}`);
+      await rename(filePath, backupPath);
+      records = {};
+    }
+    return records!;
+  }
+
+  async function save() {
+    await mkdir(dirname(filePath), { recursive: true });
+    const tempPath = `${filePath}.tmp`;
+    await writeFile(tempPath, JSON.stringify(records, null, 2));
+    await rename(tempPath, filePath);
+  }
+
+  function enqueue<T>(operation: () => Promise<T>): Promise<T> {
+    const result = queue.then(operation);
+    queue = result.catch(() => undefined);
+    return result;
+  }
+
+  // Tasks are polled far more often than they change, so the ledger is only
+  // written when change reports that it changed the record
+  function update(taskId: string, change: (record: TaskRecord) => boolean) {
+    enqueue(async () => {
+      const record = (await load())[taskId];
+      if (!record || !change(record)) {
+        return;
+      }
+      record.updatedAt = new Date().toISOString();
+      await save();
+    }).catch((error) => {
+      logger.warn(`Could not update task ${taskId} in ledger: ${error.message}`);
+    });
+  }
+
+  return {
+    recordCreated(taskId, toolName, requestBody, owner) {
+      enqueue(async () => {
+        const request = JSON.parse(requestBody);
+        const now = new Date().toISOString();
+        (await load())[taskId] = {
+          taskId,
+          owner,
+          toolName,
+          model: request.model,
+          taskType: request.task_type,
+          request: compactRequest(request),
+          status: "pending",
+          statusHistory: [],
+          urls: [],
+          createdAt: now,
+          updatedAt: now,
+        };
+        await save();
+      }).catch((error) => {
+        logger.warn(`Could not record task ${taskId} in ledger: ${error.message}`);
+      });
+    },
+    recordStatus(task) {
+      update(task.task_id, (record) => {
+        const last = record.statusHistory[record.statusHistory.length - 1];
+        const error =
+          task.status === "failed"
+            ? task.error?.message || "Unknown error"
+            : record.error;
+        if (last?.status === task.status && error === record.error) {
+          return false;
+        }
+        if (last?.status !== task.status) {
+          record.statusHistory.push({
+            status: task.status,
+            progress: task.progress,
+            at: new Date().toISOString(),
+          });
+        }
+        record.status = task.status;
+        record.error = error;
+        return true;
+      });
+    },
+    recordResult(taskId, usage, urls) {
+      update(taskId, (record) => {
+        if (
+          record.usage === usage &&
+          record.urls.join("\n") === urls.join("\n")
+        ) {
+          return false;
+        }
+        record.usage = usage;
+        record.urls = urls;
+        return true;
+      });
+    },
+    recordError(taskId, error) {
+      update(taskId, (record) => {
+        if (record.error === error) {
+          return false;
+        }
+        record.error = error;
+        return true;
+      });
+    },
+    get(taskId, owner) {
+      return enqueue(async () => {
+        const record = (await load())[taskId];
+        return record?.owner === owner ? record : undefined;
+      });
+    },
+    list(filter) {
+      return enqueue(async () =>
+        Object.values(await load())
+          .filter(
+            (record) =>
+              record.owner === filter.owner &&
+              (!filter.toolName || record.toolName === filter.toolName) &&
+              (!filter.status || record.status === filter.status) &&
+              (!filter.since || new Date(record.createdAt) >= filter.since) &&
+              (!filter.until || new Date(record.createdAt) < filter.until)
+          )
+          .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      );
+    },
+  };
+}
+
+function isFileNotFoundError(error: unknown): error is NodeJS.ErrnoException {
+  return error instanceof Error && (error as NodeJS.ErrnoException).code === "ENOENT";
+}
+
+// Media inputs reach PiAPI as uploaded urls, except the few sent inline, like
+// the Midjourney inpaint mask, which the ledger keeps only the size of
+function compactRequest(value: unknown): unknown {
+  if (typeof value === "string") {
+    if (value.startsWith("data:")) {
+      return `[data URI, ${value.length} characters]`;
+    }
+    return value.length > 1024 && /^[A-Za-z0-9+/]+=*$/.test(value)
+      ? `[base64 data, ${Math.floor((value.length * 3) / 4)} bytes]`
+      : value;
+  }
+  if (Array.isArray(value)) {
+    return value.map(compactRequest);
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, compactRequest(item)])
+    );
+  }
+  return value;
+}
+
+function formatTaskRecord(record: TaskRecord): string {
+  const error = record.error ? `\nError: ${record.error}` : "";
+  const urls = record.urls.length > 0 ? `\nUrls:\n${record.urls.join("\n")}` : "";
+  return `TaskId: ${record.taskId}\nTool: ${record.toolName}\nModel: ${record.model}\nStatus: ${record.status}\nCreated at: ${record.createdAt}${error}${urls}`;
+}
+
+// Task resources
+
+const TASK_WATCH_INTERVAL = 10; // in seconds
+
+interface TaskSubscription {
+  // The API key of every subscribed session, the task is watched with the key
+  // of any session still subscribed
+  sessions: Map<FastMCPSession<SessionAuth>, string>;
+  lastStatus?: string;
+  watching: boolean;
+}
+
+const taskSubscriptions = new Map<string, TaskSubscription>();
+
+function registerTaskResource(server: FastMCP<SessionAuth>) {
+  server.addResourceTemplate({
+    uriTemplate: "piapi://task/{taskId}",
+    name: "PiAPI task",
+    description:
+      "The status and output of a PiAPI task, subscribe to get notified when the status changes",
+    mimeType: "application/json",
+    arguments: [
+      {
+        name: "taskId",
+        description: "The ID of the task",
+      },
+    ],
+    // Completes the IDs of the caller's tasks, here rather than on the
+    // argument as FastMCP only types the session of template completers
+    complete: async (name, value, auth) => {
+      if (name !== "taskId") {
+        return { values: [] };
+      }
+      const owner = apiKeyOwner(getRequestApiKey(auth?.apiKey));
+      const taskIds = (await taskLedger.list({ owner }))
+        .map((record) => record.taskId)
+        .filter((taskId) => taskId.startsWith(value));
+      return { values: taskIds.slice(0, 100), total: taskIds.length };
+    },
+    load: async ({ taskId }, auth) => {
+      const apiKey = getRequestApiKey(auth?.apiKey);
+      if (!(await taskLedger.get(taskId, apiKeyOwner(apiKey)))) {
+        throw new UserError(`TaskId: ${taskId}, No record found in the task ledger`);
+      }
+      const task = await getTask(taskId, apiKey);
+      return {
+        text: JSON.stringify(normalizeTask(task), null, 2),
+      };
+    },
+  });
+}
+
+function taskResourceUri(taskId: string): string {
+  return `piapi://task/${encodeURIComponent(taskId)}`;
+}
+
+function parseTaskResourceUri(uri: string): string {
+  const match = uri.match(/^piapi:\/\/task\/([^/]+)$/);
+  if (!match) {
+    throw new UserError(`Unknown resource: ${uri}`);
+  }
+  return decodeURIComponent(match[1]);
+}
+
+// The task as exposed through its resource, with the assets of a completed
+// task parsed by the same formatter its tool uses
+function normalizeTask(task: TaskData) {
+  let assets: TaskAsset[] = [];
+  let error = task.status === "failed" ? task.error?.message || "Unknown error" : undefined;
+  if (task.status === "completed") {
+    try {
+      assets = resolveTaskFormatter(task.model, task.task_type)(
+        task.task_id,
+        task.meta?.usage?.consume || "unknown",
+        task.output
+      ).assets;
+    } catch (err) {
+      error = err instanceof Error ? err.message : String(err);
+    }
+  }
+  return {
+    taskId: task.task_id,
+    model: task.model,
+    taskType: task.task_type,
+    status: task.status,
+    progress: task.progress,
+    usage: task.meta?.usage?.consume,
+    assets,
+    error,
+    output: task.output,
+  };
+}
+
+// FastMCP only tracks which resources a session subscribed to, so take over
+// its subscription handlers to also watch the subscribed tasks
+function setupTaskSubscriptions(session: FastMCPSession<SessionAuth>) {
+  session.server.setRequestHandler(SubscribeRequestSchema, async (request, extra) => {
+    const taskId = parseTaskResourceUri(request.params.uri);
+    const apiKey = getRequestApiKey(readApiKeyHeader(extra.requestInfo?.headers));
+    if (!(await taskLedger.get(taskId, apiKeyOwner(apiKey)))) {
+      throw new UserError(`TaskId: ${taskId}, No record found in the task ledger`);
+    }
+    let subscription = taskSubscriptions.get(taskId);
+    if (!subscription) {
+      subscription = { sessions: new Map(), watching: false };
+      taskSubscriptions.set(taskId, subscription);
+    }
+    subscription.sessions.set(session, apiKey);
+    logger.info(`Subscribed to task ${taskId}`);
+    watchTask(taskId);
+    return {};
+  });
+  session.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    const taskId = parseTaskResourceUri(request.params.uri);
+    const subscription = taskSubscriptions.get(taskId);
+    subscription?.sessions.delete(session);
+    if (subscription?.sessions.size === 0) {
+      taskSubscriptions.delete(taskId);
+    }
+    logger.info(`Unsubscribed from task ${taskId}`);
+    return {};
+  });
+}
+
+function unsubscribeSession(session: FastMCPSession<SessionAuth>) {
+  for (const [taskId, subscription] of taskSubscriptions) {
+    subscription.sessions.delete(session);
+    if (subscription.sessions.size === 0) {
+      taskSubscriptions.delete(taskId);
+    }
+  }
+}
+
+// Notifies subscribers when a task's status or progress changed since the
+// last time it was seen, whichever request it was seen by
+function publishTaskStatus(task: TaskData) {
+  const subscription = taskSubscriptions.get(task.task_id);
+  const status = `${task.status}:${task.progress ?? ""}`;
+  if (!subscription || subscription.lastStatus === status) {
+    return;
+  }
+  subscription.lastStatus = status;
+  for (const session of subscription.sessions.keys()) {
+    session.server
+      .sendResourceUpdated({ uri: taskResourceUri(task.task_id) })
+      .catch((error) => {
+        logger.warn(`Could not notify task ${task.task_id} update: ${error.message}`);
+      });
+  }
+}
+
+// Polls a subscribed task until it finishes or nobody is subscribed anymore,
+// so subscribers get notified without calling a tool
+async function watchTask(taskId: string) {
+  const subscription = taskSubscriptions.get(taskId);
+  if (!subscription || subscription.watching) {
+    return;
+  }
+  subscription.watching = true;
+  try {
+    while (taskSubscriptions.get(taskId) === subscription) {
+      const [apiKey] = subscription.sessions.values();
+      const { status } = await getTask(taskId, apiKey);
+      if (status === "completed" || status === "failed") {
+        break;
+      }
+      await delay(TASK_WATCH_INTERVAL * 1000);
+    }
+  } catch (error) {
+    logger.warn(
+      `Stopped watching task ${taskId}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  } finally {
+    subscription.watching = false;
+  }
+}
+
+// Structured results, schemas are built by functions as the tools are
+// registered before the rest of this module runs
+
+function taskAssetSchema() {
+  return z.object({
+    kind: z.enum(["image", "video", "audio", "model"]),
+    url: z.string(),
+    width: z.number().optional(),
+    height: z.number().optional(),
+    duration: z.number().optional().describe("In seconds"),
+    role: z
+      .string()
+      .optional()
+      .describe("What the asset is to the task, e.g. 'last_frame' or 'model_file'"),
+    path: z
+      .string()
+      .optional()
+      .describe("The local path of the asset when saved to the output directory"),
+    id: z
+      .string()
+      .optional()
+      .describe("The id PiAPI gives the asset, e.g. the clip id to extend a Suno song from"),
+    transparent: z
+      .boolean()
+      .optional()
+      .describe("Whether the image has a transparent background"),
+    title: z.string().optional(),
+    tags: z.string().optional(),
+    lyrics: z.string().optional(),
+  });
+}
+
+type TaskAsset = z.infer<ReturnType<typeof taskAssetSchema>>;
+
+function taskOutputSchema() {
+  return z.object({
+    taskId: z.string(),
+    model: z.string(),
+    task_type: z.string(),
+    status: z.string(),
+    progress: z.number().optional(),
+    usage: z.union([z.number(), z.string()]).optional(),
+    assets: z.array(taskAssetSchema()),
+    texts: z
+      .array(z.string())
+      .optional()
+      .describe("The texts generated by the task, e.g. the prompts of a Midjourney describe"),
+  });
+}
+
+type TaskOutput = z.infer<ReturnType<typeof taskOutputSchema>>;
+
+function taskRecordSchema() {
+  return z.object({
+    taskId: z.string(),
+    toolName: z.string(),
+    model: z.string(),
+    taskType: z.string(),
+    request: z.unknown(),
+    status: z.string(),
+    statusHistory: z.array(
+      z.object({
+        status: z.string(),
+        progress: z.number().optional(),
+        at: z.string(),
+      })
+    ),
+    usage: z.union([z.number(), z.string()]).optional(),
+    urls: z.array(z.string()),
+    error: z.string().optional(),
+    createdAt: z.string(),
+    updatedAt: z.string(),
+  });
+}
+
+// The schema of the structured result of a tool, every tool returns a
+// TaskOutput except these, undefined for no structured result
+function toolOutputSchema(toolName: string): z.ZodTypeAny | undefined {
+  switch (toolName) {
+    case "show_image":
+      return undefined;
+    case "cancel_task":
+      return z.object({
+        taskId: z.string(),
+        cancelled: z.boolean(),
+        message: z.string(),
+      });
+    case "list_tasks":
+      return z.object({
+        total: z.number(),
+        tasks: z.array(taskRecordSchema()),
+      });
+    case "get_task_record":
+      return taskRecordSchema();
+    case "save_media":
+      return z.object({
+        files: z.array(
+          z.object({
+            url: z.string(),
+            path: z.string().optional(),
+            error: z.string().optional(),
+          })
+        ),
+      });
+    default:
+      return taskOutputSchema();
+  }
+}
+
+// The structured result of a task that has not completed yet
+function taskStatusOutput(task: TaskData): TaskOutput {
+  return {
+    taskId: task.task_id,
+    model: task.model,
+    task_type: task.task_type,
+    status: task.status,
+    progress: task.progress,
+    usage: task.meta?.usage?.consume,
+    assets: [],
+  };
+}
+
+// Result formatter
+
+interface TaskResult {
+  content: Content[];
+  assets: TaskAsset[];
+  texts?: string[];
+}
+
+type TaskResultFormatter = (
+  taskId: string,
+  usage: string,
+  output: unknown,
+  log?: any
+) => TaskResult;
+
+const TASK_RESULT_FORMATTERS: Record<string, TaskResultFormatter> = {
+  "Qubico/image-toolkit": formatImageResult,
+  "Qubico/video-toolkit": formatVideoResult,
+  "Qubico/flux1-schnell": formatImageResult,
+  "Qubico/flux1-dev": formatImageResult,
+  "Qubico/flux1-dev-advanced": formatImageResult,
+  "Qubico/flux1-kontext-pro": formatImageResult,
+  "Qubico/flux1-kontext-max": formatImageResult,
+  "gpt-4o-image": formatImageResult,
+  ideogram: formatImageResult,
+  "Qubico/hunyuan": formatVideoResult,
+  "Qubico/skyreels": formatVideoResult,
+  "Qubico/wanx": formatVideoResult,
+  "Qubico/mmaudio": formatMusicResult,
+  "Qubico/tts": formatSpeechResult,
+  "Qubico/trellis": formatTrellisResult,
+  midjourney: formatImageResult,
+  kling: formatKlingResult,
+  luma: formatLumaResult,
+  "music-s": formatSunoMusicResult,
+  "music-u": formatUdioMusicResult,
+  hailuo: formatVideoResult,
+  veo3: formatVeo3Result,
+  seedance: formatSeedanceResult,
+  "Qubico/framepack": formatFramePackResult,
+  "t2v-01": formatVideoResult,
+  "t2v-01-director": formatVideoResult,
+  "i2v-01": formatVideoResult,
+  "i2v-01-live": formatVideoResult,
+  "i2v-01-director": formatVideoResult,
+  "s2v-01": formatVideoResult,
+};
+
+// Formatters of task types whose output differs from the rest of their model
+const TASK_TYPE_RESULT_FORMATTERS: Record<string, TaskResultFormatter> = {
+  "midjourney/describe": formatMidjourneyDescribeResult,
+  "music-s/generate_lyrics": formatSunoLyricsResult,
+  "kling/ai_try_on": formatKlingTryOnResult,
+};
+
+function resolveTaskFormatter(
+  model: string,
+  taskType: string
+): TaskResultFormatter {
+  return (
+    TASK_TYPE_RESULT_FORMATTERS[`${model}/${taskType}`] ||
+    TASK_RESULT_FORMATTERS[model] ||
+    formatRawResult
+  );
+}
+
+function formatRawResult(
+  taskId: string,
+  usage: string,
+  output: unknown,
+  log?: any
+): TaskResult {
+  const useLogger = log || logger;
+  useLogger.warn(`No result formatter found for task ${taskId}, returning raw output`);
+  return {
+    content: [
+      {
+        type: "text",
+        text: `TaskId: ${taskId}\nTask completed successfully!\nUsage: ${usage} tokens\nOutput:\n${JSON.stringify(
+          output,
+          null,
+          2
+        )}`,
+      },
+    ],
+    assets: [],
+  };
+}
+
+function formatImageResult(
+  taskId: string,
+  usage: string,
+  output: unknown,
+  log?: any
+): TaskResult {
+  const images = parseImageAssets(taskId, output, log);
+  return {
+    content: [
+      {
+        type: "text",
+        text: `TaskId: ${taskId}\nImage generated successfully!\nUsage: ${usage} tokens\nImage urls:\n${images
+          .map(describeImage)
+          .join("\n")}`,
+      },
+    ],
+    assets: images.map((image) => ({ kind: "image", ...image })),
+  };
+}
+
+// The url of an image, followed by its size and background when known
+function describeImage(image: ParsedImage): string {
+  const details = [
+    ...(image.width && image.height ? [`${image.width}x${image.height}`] : []),
+    ...(image.transparent ? ["transparent background"] : []),
+  ];
+  return details.length > 0
+    ? `${image.url} (${details.join(", ")})`
+    : image.url;
+}
+
+function formatVideoResult(
+  taskId: string,
+  usage: string,
+  output: unknown,
+  log?: any
+): TaskResult {
+  const url = parseVideoOutput(taskId, output, log);
+  return {
+    content: [
+      {
+        type: "text",
+        text: `TaskId: ${taskId}\nVideo generated successfully!\nUsage: ${usage} tokens\nVideo url:\n${url}`,
+      },
+    ],
+    assets: [{ kind: "video", url }],
+  };
+}
+
+function formatVeo3Result(
+  taskId: string,
+  usage: string,
+  output: unknown,
+  log?: any
+): TaskResult {
+  const video = parseVeo3Output(taskId, output, log);
+  return {
+    content: [
+      {
+        type: "text",
+        text: `TaskId: ${taskId}\nVideo generated successfully!\nUsage: ${usage} tokens\nVideo url:\n${video.url}\nAudio: ${video.hasAudio ? "yes" : "no"}`,
+      },
+    ],
+    assets: [
+      {
+        kind: "video",
+        url: video.url,
+        width: video.width,
+        height: video.height,
+        duration: video.duration,
+      },
+    ],
+  };
+}
+
+function formatSeedanceResult(
+  taskId: string,
+  usage: string,
+  output: unknown,
+  log?: any
+): TaskResult {
+  const url = parseSeedanceOutput(taskId, output, log);
+  return {
+    content: [
+      {
+        type: "text",
+        text: `TaskId: ${taskId}\nVideo generated successfully!\nUsage: ${usage} tokens\nVideo url:\n${url}`,
+      },
+    ],
+    assets: [{ kind: "video", url }],
+  };
+}
+
+function formatFramePackResult(
+  taskId: string,
+  usage: string,
+  output: unknown,
+  log?: any
+): TaskResult {
+  const video = parseFramePackOutput(taskId, output, log);
+  return {
+    content: [
+      {
+        type: "text",
+        text: `TaskId: ${taskId}\nVideo generated successfully!\nUsage: ${usage} tokens\nVideo url:\n${video.url}`,
+      },
+    ],
+    assets: [{ kind: "video", url: video.url, duration: video.duration }],
+  };
+}
+
+function formatMusicResult(
+  taskId: string,
+  usage: string,
+  output: unknown,
+  log?: any
+): TaskResult {
+  const url = parseAudioOutput(taskId, output, log);
+  return {
+    content: [
+      {
+        type: "text",
+        text: `TaskId: ${taskId}\nMusic generated successfully!\nUsage: ${usage} tokens\nMusic url:\n${url}`,
+      },
+    ],
+    assets: [{ kind: "audio", url }],
+  };
+}
+
+function formatSpeechResult(
+  taskId: string,
+  usage: string,
+  output: unknown,
+  log?: any
+): TaskResult {
+  const url = parseAudioOutput(taskId, output, log);
+  return {
+    content: [
+      {
+        type: "text",
+        text: `TaskId: ${taskId}\nSpeech generated successfully!\nUsage: ${usage} tokens\nSpeech url:\n${url}`,
+      },
+    ],
+    assets: [{ kind: "audio", url }],
+  };
+}
+
+function formatMidjourneyDescribeResult(
+  taskId: string,
+  usage: string,
+  output: unknown,
+  log?: any
+): TaskResult {
+  const prompts = parseMidjourneyDescribeOutput(taskId, output, log);
+  return {
+    content: [
+      {
+        type: "text",
+        text: `TaskId: ${taskId}\nImage described successfully!\nUsage: ${usage} tokens\nPrompts:\n${prompts
+          .map((prompt, i) => `${i + 1}. ${prompt}`)
+          .join("\n")}`,
+      },
+    ],
+    assets: [],
+    texts: prompts,
+  };
+}
+
+function formatKlingResult(
+  taskId: string,
+  usage: string,
+  output: unknown,
+  log?: any
+): TaskResult {
+  const videos = parseKlingOutput(taskId, output, log);
+  return {
+    content: [
+      {
+        type: "text",
+        text: `TaskId: ${taskId}\nVideo generated successfully!\nUsage: ${usage} tokens\nVideo urls:\n${videos
+          .map((video) => video.url)
+          .join("\n")}`,
+      },
+    ],
+    assets: videos.map((video) => ({ kind: "video", ...video })),
+  };
+}
+
+function formatKlingTryOnResult(
+  taskId: string,
+  usage: string,
+  output: unknown,
+  log?: any
+): TaskResult {
+  const images = parseKlingTryOnOutput(taskId, output, log);
+  return {
+    content: [
+      {
+        type: "text",
+        text: `TaskId: ${taskId}\nImage generated successfully!\nUsage: ${usage} tokens\nImage urls:\n${images
+          .map((image) => image.url)
+          .join("\n")}`,
+      },
+    ],
+    assets: images.map((image) => ({ kind: "image", ...image })),
+  };
+}
+
+function formatSunoMusicResult(
+  taskId: string,
+  usage: string,
+  output: unknown,
+  log?: any
+): TaskResult {
+  const clips = parseSunoMusicOutput(taskId, output, log);
+  let content: Content[] = [];
+  content.push({
+    type: "text",
+    text: `TaskId: ${taskId}\nMusic generated successfully!\nUsage: ${usage} tokens`,
+  });
+  for (const clip of clips) {
+    const lines = [`Clip id: ${clip.id}`];
+    if (clip.title) {
+      lines.push(`Title: ${clip.title}`);
+    }
+    if (clip.duration !== undefined) {
+      lines.push(`Duration: ${clip.duration}s`);
+    }
+    if (clip.tags) {
+      lines.push(`Tags: ${clip.tags}`);
+    }
+    lines.push(`Audio url: ${clip.audio_url}`, `Image url: ${clip.image_url}`);
+    if (clip.lyrics) {
+      lines.push(`Lyrics:\n${clip.lyrics}`);
+    }
+    content.push({ type: "text", text: lines.join("\n") });
   }
-
-  return createData.data.task_id;
+  return {
+    content,
+    assets: clips.flatMap((clip): TaskAsset[] => [
+      {
+        kind: "audio",
+        url: clip.audio_url,
+        id: clip.id,
+        title: clip.title,
+        duration: clip.duration,
+        tags: clip.tags,
+        lyrics: clip.lyrics,
+      },
+      { kind: "image", url: clip.image_url, id: clip.id, role: "cover" },
+    ]),
+  };
 }
 
-async function getTaskResult(
-  log: any,
-  reportProgress: (progress: Progress) => Promise<void>,
+function formatUdioMusicResult(
   taskId: string,
-  maxAttempts: number,
-  timeout: number
-): Promise<{ taskId: string; usage: string; output: unknown }> {
-  for (let attempt = 0; attempt < maxAttempts; attempt++) {
-    // Use environment-specific logger, fallback to provided log if exists
-    const useLogger = log || logger;
-    useLogger.info(`Checking task ${taskId} status (attempt ${attempt + 1}/${maxAttempts})...`);
-
-    reportProgress({
-      progress: (attempt / maxAttempts) * 100,
-      total: 100,
-    });
-
-    const statusResponse = await fetch(
-      `https://api.piapi.ai/api/v1/task/${taskId}`,
-      {
-        headers: {
-          "X-API-Key": apiKey,
-        },
-      }
-    );
-
-    const statusData = await statusResponse.json();
-
-    if (statusData.code !== 200) {
-      useLogger.error(`Status check failed for task ${taskId}: ${statusData.message}`);
-      throw new UserError(
-        `TaskId: ${taskId}, Status check failed: ${statusData.message}`
-      );
+  usage: string,
+  output: unknown,
+  log?: any
+): TaskResult {
+  const songs = parseUdioMusicOutput(taskId, output, log);
+  let content: Content[] = [];
+  content.push({
+    type: "text",
+    text: `TaskId: ${taskId}\nMusic generated successfully!\nUsage: ${usage} tokens`,
+  });
+  for (const song of songs) {
+    const lines = [`Song id: ${song.id}`];
+    if (song.title) {
+      lines.push(`Title: ${song.title}`);
     }
-
-    const { status, output, error } = statusData.data;
-
-    useLogger.info(`Task ${taskId} status: ${status}`);
-    
-    // Safely check if progress property exists
-    if (status === "in_progress" && statusData.data.progress !== undefined) {
-      useLogger.info(`Task ${taskId} progress: ${statusData.data.progress}%`);
+    if (song.duration !== undefined) {
+      lines.push(`Duration: ${song.duration}s`);
     }
-
-    if (status === "completed") {
-      if (!output) {
-        useLogger.error(`Task ${taskId} completed but no output found`);
-        throw new UserError(
-          `TaskId: ${taskId}, Task completed but no output found`
-        );
-      }
-      const usage = statusData.data.meta?.usage?.consume || "unknown";
-      useLogger.info(`Task ${taskId} completed successfully. Usage: ${usage}`);
-      
-      // Don't log huge JSON objects that might crash the console
-      try {
-        const outputStr = JSON.stringify(output);
-        if (outputStr.length < 1000) {
-          useLogger.debug(`Task ${taskId} output: ${outputStr}`);
-        } else {
-          useLogger.debug(`Task ${taskId} output: [Large output, length: ${outputStr.length} chars]`);
-        }
-      } catch (err: any) {
-        useLogger.debug(`Task ${taskId} output: [Could not stringify output: ${err.message}]`);
-      }
-
-      return { taskId, usage, output };
+    if (song.tags) {
+      lines.push(`Tags: ${song.tags}`);
     }
-
-    if (status === "failed") {
-      useLogger.error(`Task ${taskId} failed: ${error?.message || "Unknown error"}`);
-      throw new UserError(
-        `TaskId: ${taskId}, Generation failed: ${error?.message || "Unknown error"}`
-      );
+    lines.push(`Audio url: ${song.audio_url}`);
+    if (song.image_url) {
+      lines.push(`Image url: ${song.image_url}`);
     }
-
-    await new Promise((resolve) =>
-      setTimeout(resolve, (timeout * 1000) / maxAttempts)
-    );
+    if (song.lyrics) {
+      lines.push(`Lyrics:\n${song.lyrics}`);
+    }
+    content.push({ type: "text", text: lines.join("\n") });
   }
+  return {
+    content,
+    assets: songs.flatMap((song) => {
+      const assets: TaskAsset[] = [
+        {
+          kind: "audio",
+          url: song.audio_url,
+          id: song.id,
+          title: song.title,
+          duration: song.duration,
+          tags: song.tags,
+          lyrics: song.lyrics,
+        },
+      ];
+      if (song.image_url) {
+        assets.push({ kind: "image", url: song.image_url, id: song.id, role: "cover" });
+      }
+      return assets;
+    }),
+  };
+}
 
-  logger.error(`Task ${taskId} timed out after ${timeout} seconds`);
-  throw new UserError(
-    `TaskId: ${taskId}, Generation timed out after ${timeout} seconds`
+function formatSunoLyricsResult(
+  taskId: string,
+  usage: string,
+  output: unknown,
+  log?: any
+): TaskResult {
+  const lyrics = parseSunoLyricsOutput(taskId, output, log);
+  return {
+    content: [
+      {
+        type: "text",
+        text: `TaskId: ${taskId}\nLyrics generated successfully!\nUsage: ${usage} tokens\n${
+          lyrics.title ? `Title: ${lyrics.title}\n` : ""
+        }Lyrics:\n${lyrics.text}`,
+      },
+    ],
+    assets: [],
+    texts: [lyrics.text],
+  };
+}
+
+function formatLumaResult(
+  taskId: string,
+  usage: string,
+  output: unknown,
+  log?: any
+): TaskResult {
+  const [video_raw, last_frame] = parseLumaOutput(taskId, output, log);
+  return {
+    content: [
+      {
+        type: "text",
+        text: `TaskId: ${taskId}\nVideo generated successfully!\nUsage: ${usage} tokens\nVideo url:\n${video_raw.url}\nVideo resolution: ${video_raw.width}x${video_raw.height}\nLast frame url:\n${last_frame.url}\nLast frame resolution: ${last_frame.width}x${last_frame.height}\nTo continue the video, use this TaskId with extend_video_luma, or the last frame url as the keyFrame of another video`,
+      },
+    ],
+    assets: [
+      { kind: "video", ...video_raw },
+      { kind: "image", ...last_frame, role: "last_frame" },
+    ],
+  };
+}
+
+function formatTrellisResult(
+  taskId: string,
+  usage: string,
+  output: unknown,
+  log?: any
+): TaskResult {
+  const [imageUrl, videoUrl, modelFileUrl] = parseTrellisOutput(
+    taskId,
+    output,
+    log
   );
+  return {
+    content: [
+      {
+        type: "text",
+        text: `TaskId: ${taskId}\n3d model generated successfully!\nUsage: ${usage} tokens\nImage url:\n${imageUrl}\nVideo url:\n${videoUrl}\nModel file url:\n${modelFileUrl}`,
+      },
+    ],
+    assets: [
+      { kind: "image", url: imageUrl, role: "no_background_image" },
+      { kind: "video", url: videoUrl, role: "preview" },
+      { kind: "model", url: modelFileUrl, role: "model_file" },
+    ],
+  };
 }
 
 // Result parser
 
+interface ParsedImage {
+  url: string;
+  width?: number;
+  height?: number;
+  transparent?: boolean;
+}
+
 const ImageOutputSchema = z
   .object({
     image_url: z.string().optional(),
     image_urls: z.array(z.string()).nullable().optional(),
     temporary_image_urls: z.array(z.string()).nullable().optional(),
+    // GPT-4o image and Ideogram describe each image they return
+    images: z
+      .array(
+        z.object({
+          url: z.string(),
+          width: z.number().nullish(),
+          height: z.number().nullish(),
+          background: z.enum(["transparent", "opaque"]).nullish(),
+        })
+      )
+      .nullish(),
   })
   .refine(
     (data) => 
       data.image_url || 
       (data.image_urls && data.image_urls.length > 0) ||
-      (data.temporary_image_urls && data.temporary_image_urls.length > 0),
+      (data.temporary_image_urls && data.temporary_image_urls.length > 0) ||
+      (data.images && data.images.length > 0),
     {
       message: "At least one image URL must be provided",
-      path: ["image_url", "image_urls", "temporary_image_urls"],
+      path: ["image_url", "image_urls", "temporary_image_urls", "images"],
     }
   );
 
-function parseImageOutput(taskId: string, output: unknown, log?: any): string[] {
+export function parseImageOutput(taskId: string, output: unknown, log?: any): string[] {
+  return parseImageAssets(taskId, output, log).map((image) => image.url);
+}
+
+// The images of any image model, with their size and background when the
+// model reports them
+export function parseImageAssets(
+  taskId: string,
+  output: unknown,
+  log?: any
+): ParsedImage[] {
   const useLogger = log || logger;
   
   useLogger.info(`Parsing image output for task ${taskId}`);
@@ -1842,21 +6371,80 @@ function parseImageOutput(taskId: string, output: unknown, log?: any): string[]
                       imageOutput.temporary_image_urls.length > 0 && 
                       imageOutput.image_urls === null;
   
-  const imageUrls = [
+  const images: ParsedImage[] = [
     ...(imageOutput.image_url ? [imageOutput.image_url] : []),
     ...(!isMidjourney && imageOutput.image_urls ? imageOutput.image_urls : []),
     ...(imageOutput.temporary_image_urls || []),
-  ].filter(Boolean);
+  ]
+    .filter(Boolean)
+    .map((url) => ({ url }));
+  for (const image of imageOutput.images || []) {
+    if (image.url) {
+      images.push({
+        url: image.url,
+        width: image.width || undefined,
+        height: image.height || undefined,
+        transparent: image.background
+          ? image.background === "transparent"
+          : undefined,
+      });
+    }
+  }
+
+  // Flux repeats its image_url in image_urls, list each image once
+  const unique = new Map<string, ParsedImage>();
+  for (const image of images) {
+    unique.set(image.url, { ...unique.get(image.url), ...image });
+  }
 
-  if (imageUrls.length === 0) {
+  if (unique.size === 0) {
     useLogger.error(`No image URLs found for task ${taskId}`);
     throw new UserError(
       `TaskId: ${taskId}, Task completed but no image URLs found`
     );
   }
 
-  useLogger.info(`Found ${imageUrls.length} image URLs for task ${taskId}`);
-  return imageUrls;
+  useLogger.info(`Found ${unique.size} image URLs for task ${taskId}`);
+  return [...unique.values()];
+}
+
+const MidjourneyDescribeOutputSchema = z.object({
+  description: z.string(),
+});
+
+// The prompts come as one text, numbered with keycap emojis, e.g.
+// "1️⃣ a red fox --ar 3:2\n\n2️⃣ ..."
+export function parseMidjourneyDescribeOutput(
+  taskId: string,
+  output: unknown,
+  log?: any
+): string[] {
+  const useLogger = log || logger;
+
+  useLogger.info(`Parsing Midjourney describe output for task ${taskId}`);
+  useLogger.debug(`Raw output: ${JSON.stringify(output)}`);
+
+  const result = MidjourneyDescribeOutputSchema.safeParse(output);
+
+  if (!result.success) {
+    useLogger.error(`Invalid describe output format for task ${taskId}: ${result.error.message}`);
+    throw new UserError(
+      `TaskId: ${taskId}, Invalid describe output format: ${result.error.message}`
+    );
+  }
+
+  const prompts = result.data.description
+    .split(/\s*\d\uFE0F?\u20E3\s*/u)
+    .map((prompt) => prompt.trim())
+    .filter(Boolean);
+
+  if (prompts.length === 0) {
+    useLogger.error(`Task ${taskId} completed but no prompts found`);
+    throw new UserError(`TaskId: ${taskId}, Task completed but no prompts found`);
+  }
+
+  useLogger.info(`Found ${prompts.length} prompts for task ${taskId}`);
+  return prompts;
 }
 
 const AudioOutputSchema = z
@@ -1868,7 +6456,7 @@ const AudioOutputSchema = z
     path: ["audio_url"],
   });
 
-function parseAudioOutput(taskId: string, output: unknown, log?: any): string {
+export function parseAudioOutput(taskId: string, output: unknown, log?: any): string {
   const useLogger = log || logger;
   
   useLogger.info(`Parsing audio output for task ${taskId}`);
@@ -1905,7 +6493,7 @@ const VideoOutputSchema = z
     path: ["video_url"],
   });
 
-function parseVideoOutput(taskId: string, output: unknown, log?: any): string {
+export function parseVideoOutput(taskId: string, output: unknown, log?: any): string {
   const useLogger = log || logger;
   
   useLogger.info(`Parsing video output for task ${taskId}`);
@@ -1933,19 +6521,151 @@ function parseVideoOutput(taskId: string, output: unknown, log?: any): string {
   return videoUrl;
 }
 
+interface Veo3Video {
+  url: string;
+  width?: number;
+  height?: number;
+  duration?: number; // in seconds
+  hasAudio: boolean;
+}
+
+const Veo3OutputSchema = z.object({
+  video: z.object({
+    url: z.string(),
+    width: z.number().nullish(),
+    height: z.number().nullish(),
+    duration: z.number().nullish(),
+    has_audio: z.boolean().nullish(),
+  }),
+});
+
+export function parseVeo3Output(
+  taskId: string,
+  output: unknown,
+  log?: any
+): Veo3Video {
+  const useLogger = log || logger;
+
+  useLogger.info(`Parsing Veo 3 output for task ${taskId}`);
+  useLogger.debug(`Raw output: ${JSON.stringify(output)}`);
+
+  const result = Veo3OutputSchema.safeParse(output);
+
+  if (!result.success) {
+    useLogger.error(`Invalid veo3 output format for task ${taskId}: ${result.error.message}`);
+    throw new UserError(
+      `TaskId: ${taskId}, Invalid veo3 output format: ${result.error.message}`
+    );
+  }
+
+  const { video } = result.data;
+  if (!video.url) {
+    useLogger.error(`Task ${taskId} completed but no video URL found`);
+    throw new UserError(`TaskId: ${taskId}, Task completed but no video URL found`);
+  }
+
+  useLogger.info(`Found Veo 3 video for task ${taskId}: ${video.url}`);
+  return {
+    url: video.url,
+    width: video.width || undefined,
+    height: video.height || undefined,
+    duration: video.duration || undefined,
+    hasAudio: video.has_audio ?? false,
+  };
+}
+
+// Seedance returns the url of its video as the whole video field
+const SeedanceOutputSchema = z.object({
+  video: z.string(),
+});
+
+export function parseSeedanceOutput(
+  taskId: string,
+  output: unknown,
+  log?: any
+): string {
+  const useLogger = log || logger;
+
+  useLogger.info(`Parsing Seedance output for task ${taskId}`);
+  useLogger.debug(`Raw output: ${JSON.stringify(output)}`);
+
+  const result = SeedanceOutputSchema.safeParse(output);
+
+  if (!result.success) {
+    useLogger.error(`Invalid seedance output format for task ${taskId}: ${result.error.message}`);
+    throw new UserError(
+      `TaskId: ${taskId}, Invalid seedance output format: ${result.error.message}`
+    );
+  }
+
+  if (!result.data.video) {
+    useLogger.error(`Task ${taskId} completed but no video URL found`);
+    throw new UserError(`TaskId: ${taskId}, Task completed but no video URL found`);
+  }
+
+  useLogger.info(`Found Seedance video for task ${taskId}: ${result.data.video}`);
+  return result.data.video;
+}
+
+interface FramePackVideo {
+  url: string;
+  duration?: number; // in seconds
+}
+
+const FramePackOutputSchema = z.object({
+  video_url: z.string(),
+  duration: z.number().nullish(),
+});
+
+export function parseFramePackOutput(
+  taskId: string,
+  output: unknown,
+  log?: any
+): FramePackVideo {
+  const useLogger = log || logger;
+
+  useLogger.info(`Parsing FramePack output for task ${taskId}`);
+  useLogger.debug(`Raw output: ${JSON.stringify(output)}`);
+
+  const result = FramePackOutputSchema.safeParse(output);
+
+  if (!result.success) {
+    useLogger.error(`Invalid framepack output format for task ${taskId}: ${result.error.message}`);
+    throw new UserError(
+      `TaskId: ${taskId}, Invalid framepack output format: ${result.error.message}`
+    );
+  }
+
+  const { video_url, duration } = result.data;
+  if (!video_url) {
+    useLogger.error(`Task ${taskId} completed but no video URL found`);
+    throw new UserError(`TaskId: ${taskId}, Task completed but no video URL found`);
+  }
+
+  useLogger.info(`Found FramePack video for task ${taskId}: ${video_url}`);
+  return { url: video_url, duration: duration || undefined };
+}
+
+interface KlingVideo {
+  url: string;
+  width?: number;
+  height?: number;
+  duration?: number; // in seconds
+}
+
 const KlingOutputSchema = z.object({
   video_url: z.string(),
   works: z.array(z.object({
     video: z.object({
       resource_without_watermark: z.string(),
-      // height: z.number(),
-      // width: z.number(),
-      // duration: z.number(),
+      height: z.number().optional(),
+      width: z.number().optional(),
+      duration: z.number().optional(), // in milliseconds
     })
   }))
 })
 
-function parseKlingOutput(taskId: string, output: unknown, log?: any): string[] {
+export function parseKlingOutput(taskId: string, output: unknown, log?: any): KlingVideo[] {
   const useLogger = log || logger;
   
   useLogger.info(`Parsing Kling output for task ${taskId}`);
@@ -1960,21 +6680,90 @@ function parseKlingOutput(taskId: string, output: unknown, log?: any): string[]
     );
   }
 
-  let urls: string[] = [];
-  urls.push(result.data.video_url);
-  for (const work of result.data.works) {
-    urls.push(work.video.resource_without_watermark);
+  const videos: KlingVideo[] = result.data.works
+    .filter((work) => work.video.resource_without_watermark)
+    .map(({ video }) => ({
+      url: video.resource_without_watermark,
+      width: video.width || undefined,
+      height: video.height || undefined,
+      duration: video.duration ? video.duration / 1000 : undefined,
+    }));
+  // video_url usually repeats the first work's video, only list it once
+  if (
+    result.data.video_url &&
+    !videos.some((video) => video.url === result.data.video_url)
+  ) {
+    videos.unshift({ url: result.data.video_url });
   }
 
-  if (urls.length === 0) {
+  if (videos.length === 0) {
     useLogger.error(`Task ${taskId} completed but no video/work URLs found`);
     throw new UserError(
       `TaskId: ${taskId}, Task completed but no video/work URLs found`
     );
   }
 
-  useLogger.info(`Found ${urls.length} Kling URLs for task ${taskId}`);
-  return urls;
+  useLogger.info(`Found ${videos.length} Kling URLs for task ${taskId}`);
+  return videos;
+}
+
+interface KlingImage {
+  url: string;
+  width?: number;
+  height?: number;
+}
+
+const KlingTryOnOutputSchema = z.object({
+  works: z.array(
+    z.object({
+      image: z.object({
+        resource: z.string().nullish(),
+        resource_without_watermark: z.string().nullish(),
+        height: z.number().optional(),
+        width: z.number().optional(),
+      }),
+    })
+  ),
+});
+
+export function parseKlingTryOnOutput(
+  taskId: string,
+  output: unknown,
+  log?: any
+): KlingImage[] {
+  const useLogger = log || logger;
+
+  useLogger.info(`Parsing Kling try-on output for task ${taskId}`);
+  useLogger.debug(`Raw output: ${JSON.stringify(output)}`);
+
+  const result = KlingTryOnOutputSchema.safeParse(output);
+
+  if (!result.success) {
+    useLogger.error(`Invalid kling try-on output format for task ${taskId}: ${result.error.message}`);
+    throw new UserError(
+      `TaskId: ${taskId}, Invalid kling try-on output format: ${result.error.message}`
+    );
+  }
+
+  const images: KlingImage[] = [];
+  for (const { image } of result.data.works) {
+    const url = image.resource_without_watermark || image.resource;
+    if (url) {
+      images.push({
+        url,
+        width: image.width || undefined,
+        height: image.height || undefined,
+      });
+    }
+  }
+
+  if (images.length === 0) {
+    useLogger.error(`Task ${taskId} completed but no image URLs found`);
+    throw new UserError(`TaskId: ${taskId}, Task completed but no image URLs found`);
+  }
+
+  useLogger.info(`Found ${images.length} Kling try-on images for task ${taskId}`);
+  return images;
 }
 
 interface LumaResult {
@@ -2001,7 +6790,7 @@ const LumaOutputSchema = z
     path: ["video_raw", "last_frame"],
   });
 
-function parseLumaOutput(
+export function parseLumaOutput(
   taskId: string,
   output: unknown,
   log?: any
@@ -2025,21 +6814,37 @@ function parseLumaOutput(
 }
 
 interface SunoMusicClip {
+  id: string;
+  title?: string;
   audio_url: string;
   image_url: string;
+  duration?: number;
+  tags?: string;
+  lyrics?: string;
+  model?: string;
 }
 
 const SunoMusicOutputSchema = z.object({
-  clips: z.map(
+  clips: z.record(
     z.string(),
     z.object({
+      id: z.string().optional(),
+      title: z.string().nullish(),
       audio_url: z.string(),
       image_url: z.string(),
+      model_name: z.string().nullish(),
+      metadata: z
+        .object({
+          tags: z.string().nullish(),
+          prompt: z.string().nullish(),
+          duration: z.number().nullish(),
+        })
+        .nullish(),
     })
   ),
 });
 
-function parseSunoMusicOutput(
+export function parseSunoMusicOutput(
   taskId: string,
   output: unknown,
   log?: any
@@ -2059,10 +6864,17 @@ function parseSunoMusicOutput(
   }
 
   const results: SunoMusicClip[] = [];
-  for (const [key, value] of Object.entries(result.data.clips)) {
+  for (const [clipId, value] of Object.entries(result.data.clips)) {
+    // The lyrics are the prompt of the clip, empty for instrumentals
     results.push({
+      id: value.id || clipId,
+      title: value.title || undefined,
       audio_url: value.audio_url,
       image_url: value.image_url,
+      duration: value.metadata?.duration ?? undefined,
+      tags: value.metadata?.tags || undefined,
+      lyrics: value.metadata?.prompt || undefined,
+      model: value.model_name || undefined,
     });
   }
 
@@ -2077,6 +6889,103 @@ function parseSunoMusicOutput(
   return results;
 }
 
+interface UdioSong {
+  id: string;
+  title?: string;
+  audio_url: string;
+  image_url?: string;
+  duration?: number;
+  tags?: string;
+  lyrics?: string;
+}
+
+const UdioMusicOutputSchema = z.object({
+  songs: z.array(
+    z.object({
+      id: z.string(),
+      title: z.string().nullish(),
+      song_path: z.string(),
+      image_path: z.string().nullish(),
+      duration: z.number().nullish(),
+      tags: z.array(z.string()).nullish(),
+      lyrics: z.string().nullish(),
+    })
+  ),
+});
+
+export function parseUdioMusicOutput(
+  taskId: string,
+  output: unknown,
+  log?: any
+): UdioSong[] {
+  const useLogger = log || logger;
+
+  useLogger.info(`Parsing Udio music output for task ${taskId}`);
+  useLogger.debug(`Raw output: ${JSON.stringify(output)}`);
+
+  const result = UdioMusicOutputSchema.safeParse(output);
+
+  if (!result.success) {
+    useLogger.error(`Invalid udio music output format for task ${taskId}: ${result.error.message}`);
+    throw new UserError(
+      `TaskId: ${taskId}, Invalid udio music output format: ${result.error.message}`
+    );
+  }
+
+  // Songs that are still rendering have no audio yet
+  const songs: UdioSong[] = result.data.songs
+    .filter((song) => song.song_path)
+    .map((song) => ({
+      id: song.id,
+      title: song.title || undefined,
+      audio_url: song.song_path,
+      image_url: song.image_path || undefined,
+      duration: song.duration ?? undefined,
+      tags: song.tags?.length ? song.tags.join(", ") : undefined,
+      lyrics: song.lyrics || undefined,
+    }));
+
+  if (songs.length === 0) {
+    useLogger.error(`Task ${taskId} completed but no audio URLs found`);
+    throw new UserError(`TaskId: ${taskId}, Task completed but no audio URLs found`);
+  }
+
+  useLogger.info(`Found ${songs.length} Udio songs for task ${taskId}`);
+  return songs;
+}
+
+const SunoLyricsOutputSchema = z.object({
+  title: z.string().nullish(),
+  text: z.string(),
+});
+
+export function parseSunoLyricsOutput(
+  taskId: string,
+  output: unknown,
+  log?: any
+): { title?: string; text: string } {
+  const useLogger = log || logger;
+
+  useLogger.info(`Parsing Suno lyrics output for task ${taskId}`);
+  useLogger.debug(`Raw output: ${JSON.stringify(output)}`);
+
+  const result = SunoLyricsOutputSchema.safeParse(output);
+
+  if (!result.success) {
+    useLogger.error(`Invalid suno lyrics output format for task ${taskId}: ${result.error.message}`);
+    throw new UserError(
+      `TaskId: ${taskId}, Invalid suno lyrics output format: ${result.error.message}`
+    );
+  }
+
+  if (!result.data.text.trim()) {
+    useLogger.error(`Task ${taskId} completed but no lyrics found`);
+    throw new UserError(`TaskId: ${taskId}, Task completed but no lyrics found`);
+  }
+
+  return { title: result.data.title || undefined, text: result.data.text };
+}
+
 const TrellisOutputSchema = z
   .object({
     no_background_image: z.string(),
@@ -2092,7 +7001,7 @@ const TrellisOutputSchema = z
     }
   );
 
-function parseTrellisOutput(
+export function parseTrellisOutput(
   taskId: string,
   output: unknown,
   log?: any
@@ -0,0 +1,550 @@
+import { randomUUID } from "crypto";
+import http from "http";
+import { AddressInfo } from "net";
+import { pathToFileURL } from "url";
+
+// A mock of the PiAPI task API, so the whole tool surface can be exercised
+// offline. Tasks advance one status every time they are polled, following
+// the scenario picked for them:
+//
+//   completed    pending -> in_progress -> completed
+//   failed       pending -> in_progress -> failed
+//   pending      pending forever
+//   in_progress  pending -> in_progress forever, with advancing progress
+//   stuck        pending -> in_progress forever, with progress stuck at 50%
+//
+// The scenario is the server default unless a task input contains a
+// "mock:<scenario>" token, e.g. a prompt of "a red fox mock:failed"
+//
+// It also stands in for PiAPI's ephemeral file storage at
+// /api/ephemeral_resource, serving uploaded files back from /uploads/, and
+// for the account endpoint HTTP sessions check their API key with
+
+type Scenario = "completed" | "failed" | "pending" | "in_progress" | "stuck";
+
+const SCENARIOS: Scenario[] = [
+  "completed",
+  "failed",
+  "pending",
+  "in_progress",
+  "stuck",
+];
+
+interface MockTask {
+  task_id: string;
+  model: string;
+  task_type: string;
+  status: string;
+  progress: number;
+  input: Record<string, unknown>;
+  output: unknown;
+  error: { code: number; message: string };
+  scenario: Scenario;
+  polls: number;
+  created_at: string;
+  ended_at?: string;
+}
+
+export interface MockServerOptions {
+  port?: number;
+  scenario?: Scenario;
+}
+
+export interface MockServer {
+  url: string;
+  tasks: Map<string, MockTask>;
+  uploads: Map<string, Buffer>;
+  close: () => Promise<void>;
+}
+
+// 1x1 transparent PNG served for every image asset
+const PNG_ASSET = Buffer.from(
+  "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==",
+  "base64"
+);
+
+const ASSET_CONTENT_TYPES: Record<string, string> = {
+  png: "image/png",
+  jpg: "image/jpeg",
+  webp: "image/webp",
+  mp4: "video/mp4",
+  mp3: "audio/mpeg",
+  glb: "model/gltf-binary",
+};
+
+// Builds an output in the shape PiAPI returns for the task's model family
+function fixtureOutput(baseUrl: string, task: MockTask): unknown {
+  const asset = (name: string) =>
+    `${baseUrl}/assets/${task.task_id}/${name}`;
+
+  switch (task.model) {
+    case "midjourney":
+      if (task.task_type === "describe") {
+        return {
+          description:
+            "1️⃣ a red fox in the snow --ar 3:2\n\n2️⃣ a fox portrait, soft light --ar 3:2\n\n3️⃣ wildlife photography of a fox --ar 3:2\n\n4️⃣ a fox in a winter forest --ar 3:2",
+        };
+      }
+      if (task.task_type === "upscale") {
+        return {
+          image_url: asset("upscaled.png"),
+          image_urls: null,
+          temporary_image_urls: null,
+          discord_image_url: "",
+          actions: ["high_variation", "low_variation", "outpaint_2x", "pan_left"],
+        };
+      }
+      return {
+        image_url: asset("grid.png"),
+        image_urls: null,
+        temporary_image_urls: [1, 2, 3, 4].map((i) => asset(`image_${i}.png`)),
+        discord_image_url: "",
+        actions: ["upscale1", "upscale2", "upscale3", "upscale4", "reroll"],
+      };
+    case "kling":
+      if (task.task_type === "ai_try_on") {
+        return {
+          works: [
+            {
+              status: 99,
+              type: "m2i_try_on",
+              image: {
+                resource: asset("try_on_watermark.png"),
+                resource_without_watermark: asset("try_on.png"),
+                height: 1024,
+                width: 768,
+              },
+            },
+          ],
+        };
+      }
+      return {
+        type: "m2v_img2video",
+        status: 99,
+        video_url: asset("video.mp4"),
+        works: [
+          {
+            status: 99,
+            type: "m2v_img2video",
+            cover: {
+              resource: asset("cover.png"),
+              resource_without_watermark: "",
+              height: 720,
+              width: 1280,
+              duration: 0,
+            },
+            video: {
+              resource: asset("video_watermark.mp4"),
+              resource_without_watermark: asset("video.mp4"),
+              height: 720,
+              width: 1280,
+              duration: 5100,
+            },
+          },
+        ],
+      };
+    case "luma":
+      return {
+        prompt: task.input.prompt,
+        internal_state: "completed",
+        created_at: task.created_at,
+        video: { url: asset("video_watermark.mp4"), width: 1360, height: 752 },
+        video_raw: { url: asset("video.mp4"), width: 1360, height: 752 },
+        thumbnail: { url: asset("thumbnail.png"), width: 1360, height: 752 },
+        last_frame: { url: asset("last_frame.png"), width: 1360, height: 752 },
+      };
+    case "music-s":
+      if (task.task_type === "generate_lyrics") {
+        return {
+          title: "Mock Song",
+          text: "[Verse]\nMock lyrics\n\n[Chorus]\nMock chorus",
+          status: "complete",
+        };
+      }
+      return {
+        clips: Object.fromEntries(
+          [1, 2].map((i) => {
+            const clipId = `${task.task_id}-clip-${i}`;
+            return [
+              clipId,
+              {
+                id: clipId,
+                video_url: "",
+                audio_url: asset(`clip_${i}.mp3`),
+                image_url: asset(`clip_${i}.png`),
+                image_large_url: asset(`clip_${i}_large.png`),
+                is_video_pending: false,
+                major_model_version: "v3",
+                model_name: "chirp-v3",
+                metadata: {
+                  tags: "pop",
+                  prompt: "[Verse]\nMock lyrics",
+                  gpt_description_prompt: task.input.prompt,
+                  type: "gen",
+                  duration: 120.5,
+                  error_message: null,
+                },
+                display_name: "mock",
+                handle: "mock",
+                is_handle_updated: false,
+                is_trashed: false,
+                reaction: null,
+                created_at: task.created_at,
+                status: "complete",
+                title: "Mock Song",
+                play_count: 0,
+                upvote_count: 0,
+                is_public: false,
+              },
+            ];
+          })
+        ),
+      };
+    case "music-u":
+      return {
+        songs: [1, 2].map((i) => ({
+          id: `${task.task_id}-song-${i}`,
+          generation_id: task.task_id,
+          title: "Mock Song",
+          song_path: asset(`song_${i}.mp3`),
+          image_path: asset(`song_${i}.png`),
+          lyrics: "[Verse]\nMock lyrics",
+          prompt: task.input.gpt_description_prompt,
+          tags: ["pop", "mock"],
+          duration: 130.1,
+          finished: true,
+          error_type: null,
+          error_detail: null,
+        })),
+      };
+    case "veo3":
+      return {
+        video: {
+          url: asset("video.mp4"),
+          width: 1280,
+          height: 720,
+          duration: 8,
+          has_audio: task.input.generate_audio !== false,
+        },
+      };
+    case "seedance":
+      return { video: asset("video.mp4") };
+    case "Qubico/framepack":
+      return {
+        video_url: asset("video.mp4"),
+        duration: Number(task.input.duration ?? 5),
+      };
+    case "gpt-4o-image": {
+      const size = String(task.input.size ?? "auto");
+      const [width, height] =
+        size === "auto" ? [1024, 1024] : size.split("x").map(Number);
+      return {
+        images: Array.from({ length: Number(task.input.n ?? 1) }, (_, i) => ({
+          url: asset(`image_${i + 1}.png`),
+          width,
+          height,
+          background:
+            task.input.background === "transparent" ? "transparent" : "opaque",
+        })),
+      };
+    }
+    case "ideogram":
+      return {
+        images: Array.from({ length: Number(task.input.num_images ?? 1) }, (_, i) => ({
+          url: asset(`image_${i + 1}.png`),
+          width: 1024,
+          height: 1024,
+          background:
+            task.task_type === "generate-transparent" ? "transparent" : "opaque",
+        })),
+      };
+    case "Qubico/trellis":
+      return {
+        no_background_image: asset("no_background.png"),
+        combined_video: asset("combined.mp4"),
+        model_file: asset("model.glb"),
+      };
+    case "Qubico/mmaudio":
+    case "Qubico/tts":
+      return { audio_url: asset("audio.mp3") };
+    case "Qubico/image-toolkit":
+    case "Qubico/flux1-schnell":
+    case "Qubico/flux1-dev":
+    case "Qubico/flux1-dev-advanced":
+    case "Qubico/flux1-kontext-pro":
+    case "Qubico/flux1-kontext-max":
+      return { image_url: asset("image.png"), image_urls: [asset("image.png")] };
+    default:
+      // Hunyuan, Skyreels, Wan, Hailuo and the video toolkit
+      return { video_url: asset("video.mp4") };
+  }
+}
+
+function pickScenario(input: unknown, fallback: Scenario): Scenario {
+  const match = JSON.stringify(input ?? {}).match(/mock:([a-z_]+)/);
+  const scenario = match?.[1] as Scenario | undefined;
+  return scenario && SCENARIOS.includes(scenario) ? scenario : fallback;
+}
+
+// Moves a task one step along its scenario
+function advanceTask(baseUrl: string, task: MockTask) {
+  task.polls++;
+  if (task.status === "completed" || task.status === "failed") {
+    return;
+  }
+  if (task.scenario === "pending") {
+    return;
+  }
+  if (task.status === "pending") {
+    task.status = "in_progress";
+    task.progress = task.scenario === "in_progress" ? 10 : 50;
+    return;
+  }
+  switch (task.scenario) {
+    case "completed":
+      task.status = "completed";
+      task.progress = 100;
+      task.output = fixtureOutput(baseUrl, task);
+      task.ended_at = new Date().toISOString();
+      break;
+    case "failed":
+      task.status = "failed";
+      task.error = { code: 10000, message: "mock task failed" };
+      task.ended_at = new Date().toISOString();
+      break;
+    case "in_progress":
+      task.progress = Math.min(task.progress + 10, 99);
+      break;
+    case "stuck":
+      break;
+  }
+}
+
+function toTaskData(task: MockTask) {
+  return {
+    task_id: task.task_id,
+    model: task.model,
+    task_type: task.task_type,
+    status: task.status,
+    progress: task.progress,
+    config: { service_mode: "public", webhook_config: { endpoint: "", secret: "" } },
+    input: task.input,
+    output: task.output,
+    meta: {
+      created_at: task.created_at,
+      started_at: task.created_at,
+      ended_at: task.ended_at ?? "0001-01-01T00:00:00Z",
+      usage: { type: "point", frozen: 0, consume: 100000 },
+      is_using_private_pool: false,
+    },
+    detail: null,
+    logs: [],
+    error: task.error,
+  };
+}
+
+function sendJson(
+  response: http.ServerResponse,
+  statusCode: number,
+  body: unknown
+) {
+  response.writeHead(statusCode, { "Content-Type": "application/json" });
+  response.end(JSON.stringify(body));
+}
+
+function readBody(request: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    request.on("data", (chunk) => chunks.push(chunk));
+    request.on("end", () => resolve(Buffer.concat(chunks).toString("utf8")));
+    request.on("error", reject);
+  });
+}
+
+export async function startMockServer(
+  options: MockServerOptions = {}
+): Promise<MockServer> {
+  const tasks = new Map<string, MockTask>();
+  // Uploaded files by their path under /uploads/
+  const uploads = new Map<string, Buffer>();
+  const defaultScenario = options.scenario ?? "completed";
+  let baseUrl = "";
+
+  const server = http.createServer(async (request, response) => {
+    const url = new URL(request.url ?? "/", baseUrl);
+    const taskMatch = url.pathname.match(/^\/api\/v1\/task(?:\/([^/]+))?$/);
+
+    if (url.pathname.startsWith("/assets/")) {
+      const extension = url.pathname.split(".").pop() ?? "";
+      response.writeHead(200, {
+        "Content-Type": ASSET_CONTENT_TYPES[extension] ?? "application/octet-stream",
+      });
+      response.end(extension === "png" ? PNG_ASSET : Buffer.from(`mock ${extension}`));
+      return;
+    }
+
+    if (url.pathname.startsWith("/uploads/")) {
+      const file = uploads.get(url.pathname.slice("/uploads/".length));
+      if (!file) {
+        sendJson(response, 404, { code: 404, message: "not found" });
+        return;
+      }
+      const extension = url.pathname.split(".").pop() ?? "";
+      response.writeHead(200, {
+        "Content-Type": ASSET_CONTENT_TYPES[extension] ?? "application/octet-stream",
+      });
+      response.end(file);
+      return;
+    }
+
+    const isUpload = url.pathname === "/api/ephemeral_resource";
+    const isAccount = url.pathname === "/account/info";
+    if (!taskMatch && !isUpload && !isAccount) {
+      sendJson(response, 404, { code: 404, message: "not found" });
+      return;
+    }
+    if (!request.headers["x-api-key"]) {
+      sendJson(response, 401, { code: 401, message: "missing X-API-Key" });
+      return;
+    }
+
+    if (isAccount) {
+      sendJson(response, 200, {
+        code: 200,
+        data: { account_name: "mock", credits: 1000000 },
+        message: "success",
+      });
+      return;
+    }
+
+    if (isUpload) {
+      let body: any;
+      try {
+        body = JSON.parse(await readBody(request));
+      } catch {
+        sendJson(response, 400, { code: 400, message: "invalid JSON body" });
+        return;
+      }
+      if (request.method !== "POST" || !body?.file_name || !body?.file_data) {
+        sendJson(response, 400, {
+          code: 400,
+          message: "file_name and file_data are required",
+        });
+        return;
+      }
+      const path = `${randomUUID()}/${encodeURIComponent(body.file_name)}`;
+      uploads.set(path, Buffer.from(body.file_data, "base64"));
+      sendJson(response, 200, {
+        code: 200,
+        data: { url: `${baseUrl}/uploads/${path}` },
+        message: "success",
+      });
+      return;
+    }
+
+    const taskId = taskMatch![1];
+    if (request.method === "POST" && !taskId) {
+      let body: any;
+      try {
+        body = JSON.parse(await readBody(request));
+      } catch {
+        sendJson(response, 400, { code: 400, message: "invalid JSON body" });
+        return;
+      }
+      if (!body?.model || !body?.task_type) {
+        sendJson(response, 400, {
+          code: 400,
+          message: "model and task_type are required",
+        });
+        return;
+      }
+      const task: MockTask = {
+        task_id: randomUUID(),
+        model: body.model,
+        task_type: body.task_type,
+        status: "pending",
+        progress: 0,
+        input: body.input ?? {},
+        output: null,
+        error: { code: 0, message: "" },
+        scenario: pickScenario(body.input, defaultScenario),
+        polls: 0,
+        created_at: new Date().toISOString(),
+      };
+      tasks.set(task.task_id, task);
+      sendJson(response, 200, {
+        code: 200,
+        data: toTaskData(task),
+        message: "success",
+      });
+      return;
+    }
+
+    const task = taskId ? tasks.get(taskId) : undefined;
+    if (!task) {
+      sendJson(response, 404, { code: 404, message: "task not found" });
+      return;
+    }
+
+    if (request.method === "GET") {
+      advanceTask(baseUrl, task);
+      sendJson(response, 200, {
+        code: 200,
+        data: toTaskData(task),
+        message: "success",
+      });
+    } else if (request.method === "DELETE") {
+      if (task.status !== "pending") {
+        sendJson(response, 400, {
+          code: 400,
+          message: `task is ${task.status}, only pending tasks can be cancelled`,
+        });
+        return;
+      }
+      task.status = "failed";
+      task.error = { code: 10001, message: "task cancelled" };
+      task.ended_at = new Date().toISOString();
+      sendJson(response, 200, { code: 200, message: "task cancelled" });
+    } else {
+      sendJson(response, 405, { code: 405, message: "method not allowed" });
+    }
+  });
+
+  await new Promise<void>((resolve) =>
+    server.listen(options.port ?? 0, "127.0.0.1", resolve)
+  );
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  return {
+    url: baseUrl,
+    tasks,
+    uploads,
+    close: () =>
+      new Promise<void>((resolve, reject) =>
+        server.close((error) => (error ? reject(error) : resolve()))
+      ),
+  };
+}
+
+// Run as a standalone server: node dist/mock-server.js --port=4000 --scenario=stuck
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const args = process.argv.slice(2);
+  const getArgValue = (name: string) =>
+    args.find((arg) => arg.startsWith(`--${name}=`))?.slice(name.length + 3);
+  const scenario = (getArgValue("scenario") || "completed") as Scenario;
+  if (!SCENARIOS.includes(scenario)) {
+    console.error(
+      `Error: unknown scenario '${scenario}', expected one of ${SCENARIOS.join(", ")}`
+    );
+    process.exit(1);
+  }
+
+  startMockServer({ port: parseInt(getArgValue("port") || "4000"), scenario })
+    .then(({ url }) => {
+      console.error(`Mock PiAPI server listening on ${url} (scenario: ${scenario})`);
+    })
+    .catch((error) => {
+      console.error("Failed to start mock server:", error);
+      process.exit(1);
+    });
+}
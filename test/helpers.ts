@@ -0,0 +1,159 @@
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { vi } from "vitest";
+import { createServer } from "../src/index.js";
+
+export interface StubTask {
+  status?: string;
+  output?: unknown;
+  progress?: number;
+  error?: { message?: string };
+}
+
+export interface PiAPIStub {
+  // Bodies of the create task requests, in order
+  requests: any[];
+  // Files uploaded to the ephemeral storage, with their decoded content
+  uploads: { fileName: string; data: Buffer }[];
+  // Every request made to PiAPI
+  calls: { method: string; url: string }[];
+  // The API key of every request made to PiAPI, in order
+  apiKeys: string[];
+  // Status returned for every task from now on
+  setTask: (task: StubTask) => void;
+  // Statuses returned by the next polls, the last one sticks
+  queueTasks: (...tasks: StubTask[]) => void;
+  // Response returned to cancel requests
+  setCancelResponse: (response: { code: number; message: string }) => void;
+  // Makes the account endpoint refuse this API key
+  rejectApiKey: (apiKey: string) => void;
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+// Replaces the global fetch with a fake PiAPI task API. Created tasks get
+// sequential IDs and report the stub task status when polled
+export function stubPiAPI(task: StubTask = {}): PiAPIStub {
+  const requests: any[] = [];
+  const uploads: { fileName: string; data: Buffer }[] = [];
+  const calls: { method: string; url: string }[] = [];
+  const apiKeys: string[] = [];
+  const rejectedApiKeys = new Set<string>();
+  let currentTask: StubTask = { status: "completed", ...task };
+  let queuedTasks: StubTask[] = [];
+  let cancelResponse = { code: 200, message: "success" };
+
+  vi.stubGlobal(
+    "fetch",
+    vi.fn(async (url: string, init: RequestInit = {}) => {
+      const method = init.method ?? "GET";
+      calls.push({ method, url });
+      const apiKey = (init.headers as Record<string, string>)?.["X-API-Key"];
+      apiKeys.push(apiKey);
+
+      if (url.endsWith("/account/info")) {
+        return rejectedApiKeys.has(apiKey)
+          ? jsonResponse({ code: 401, message: "Invalid API key" }, 401)
+          : jsonResponse({ code: 200, data: { credits: 100 }, message: "success" });
+      }
+      if (url.endsWith("/api/ephemeral_resource")) {
+        const body = JSON.parse(init.body as string);
+        uploads.push({
+          fileName: body.file_name,
+          data: Buffer.from(body.file_data, "base64"),
+        });
+        return jsonResponse({
+          code: 200,
+          data: { url: `https://upload.example.com/${body.file_name}` },
+          message: "success",
+        });
+      }
+      if (method === "POST") {
+        requests.push(JSON.parse(init.body as string));
+        return jsonResponse({
+          code: 200,
+          data: { task_id: `task-${requests.length}` },
+          message: "success",
+        });
+      }
+      if (method === "DELETE") {
+        return jsonResponse(cancelResponse);
+      }
+
+      if (queuedTasks.length > 0) {
+        currentTask = { status: "completed", ...queuedTasks.shift() };
+      }
+      const taskId = url.split("/").pop()!;
+      const request = requests[Number(taskId.replace("task-", "")) - 1];
+      return jsonResponse({
+        code: 200,
+        data: {
+          task_id: taskId,
+          model: request?.model ?? "Qubico/flux1-schnell",
+          task_type: request?.task_type ?? "txt2img",
+          status: currentTask.status,
+          progress: currentTask.progress,
+          output: currentTask.output ?? null,
+          error: currentTask.error ?? { code: 0, message: "" },
+          meta: { usage: { consume: 100 } },
+        },
+        message: "success",
+      });
+    })
+  );
+
+  return {
+    requests,
+    uploads,
+    calls,
+    apiKeys,
+    setTask: (task) => {
+      currentTask = { status: "completed", ...task };
+      queuedTasks = [];
+    },
+    queueTasks: (...tasks) => {
+      queuedTasks = tasks;
+    },
+    setCancelResponse: (response) => {
+      cancelResponse = response;
+    },
+    rejectApiKey: (apiKey) => {
+      rejectedApiKeys.add(apiKey);
+    },
+  };
+}
+
+// Connects an MCP client to the server, without any transport outside the
+// process. The session authenticates with the given API key, or the one from
+// the environment without it
+export async function connectClient(auth?: { apiKey: string }) {
+  const server = createServer();
+  const client = new Client({ name: "piapi-test-client", version: "1.0.0" });
+  const [clientTransport, serverTransport] =
+    InMemoryTransport.createLinkedPair();
+  const [session] = await Promise.all([
+    server.connect(serverTransport, auth),
+    client.connect(clientTransport),
+  ]);
+
+  return {
+    client,
+    close: async () => {
+      await client.close();
+      await session.close();
+    },
+  };
+}
+
+export function textOf(result: unknown): string {
+  const { content } = result as { content: { type: string; text?: string }[] };
+  return content
+    .filter((item) => item.type === "text")
+    .map((item) => item.text)
+    .join("\n");
+}
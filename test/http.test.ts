@@ -0,0 +1,165 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { connectClient, textOf } from "./helpers.js";
+
+let client: Awaited<ReturnType<typeof connectClient>>["client"];
+let close: () => Promise<void>;
+let fetchMock: ReturnType<typeof vi.fn>;
+
+const pendingTask = {
+  code: 200,
+  data: {
+    task_id: "task-1",
+    model: "Qubico/flux1-schnell",
+    task_type: "txt2img",
+    status: "pending",
+    output: null,
+  },
+  message: "success",
+};
+
+function json(body: unknown, init: ResponseInit = {}) {
+  return new Response(JSON.stringify(body), {
+    headers: { "Content-Type": "application/json" },
+    ...init,
+  });
+}
+
+function badGateway() {
+  return new Response("<html><body><h1>502 Bad Gateway</h1></body></html>", {
+    status: 502,
+    statusText: "Bad Gateway",
+    headers: { "Content-Type": "text/html" },
+  });
+}
+
+// fetch rejects with the network error as cause
+function networkError(code: string) {
+  return Object.assign(new TypeError("fetch failed"), {
+    cause: Object.assign(new Error(`connect ${code} 127.0.0.1:443`), { code }),
+  });
+}
+
+beforeEach(async () => {
+  fetchMock = vi.fn();
+  vi.stubGlobal("fetch", fetchMock);
+  // No backoff between retries
+  vi.spyOn(Math, "random").mockReturnValue(0);
+  ({ client, close } = await connectClient());
+});
+
+afterEach(async () => {
+  await close();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+function getTask() {
+  return client.callTool({ name: "get_task", arguments: { taskId: "task-1" } });
+}
+
+function createTask() {
+  return client.callTool({
+    name: "generate_image",
+    arguments: { prompt: "a fox", wait: false },
+  });
+}
+
+describe("polling", () => {
+  it("retries gateway errors", async () => {
+    fetchMock
+      .mockResolvedValueOnce(badGateway())
+      .mockResolvedValueOnce(json(pendingTask));
+
+    expect(textOf(await getTask())).toContain("Status: pending");
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("retries network errors", async () => {
+    fetchMock
+      .mockRejectedValueOnce(networkError("ECONNRESET"))
+      .mockResolvedValueOnce(json(pendingTask));
+
+    expect(textOf(await getTask())).toContain("Status: pending");
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("gives up with a clear error after the last retry", async () => {
+    fetchMock.mockImplementation(async () => badGateway());
+
+    const result = await getTask();
+    expect(result.isError).toBe(true);
+    expect(textOf(result)).toBe(
+      "PiAPI GET /api/v1/task/task-1 returned a non-JSON response (HTTP 502 Bad Gateway): <html><body><h1>502 Bad Gateway</h1></body></html>"
+    );
+    expect(fetchMock).toHaveBeenCalledTimes(5);
+  });
+
+  it("does not retry client errors", async () => {
+    fetchMock.mockResolvedValueOnce(
+      json({ code: 404, message: "task not found" }, { status: 404 })
+    );
+
+    const result = await getTask();
+    expect(textOf(result)).toBe(
+      "TaskId: task-1, Status check failed: task not found"
+    );
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("task creation", () => {
+  it("does not retry server errors, the task may have been created", async () => {
+    fetchMock.mockResolvedValueOnce(badGateway());
+
+    const result = await createTask();
+    expect(result.isError).toBe(true);
+    expect(textOf(result)).toContain(
+      "PiAPI POST /api/v1/task returned a non-JSON response (HTTP 502 Bad Gateway)"
+    );
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("does not retry requests that may have been sent", async () => {
+    fetchMock.mockRejectedValueOnce(networkError("ECONNRESET"));
+
+    const result = await createTask();
+    expect(textOf(result)).toBe(
+      "PiAPI POST /api/v1/task failed: connect ECONNRESET 127.0.0.1:443"
+    );
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("retries requests that never reached PiAPI", async () => {
+    fetchMock
+      .mockRejectedValueOnce(networkError("ECONNREFUSED"))
+      .mockRejectedValueOnce(networkError("ENOTFOUND"))
+      .mockResolvedValueOnce(json({ code: 200, data: { task_id: "task-1" } }));
+
+    expect(textOf(await createTask())).toMatch(/^TaskId: task-1\n/);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it("retries rate limited requests after Retry-After", async () => {
+    fetchMock
+      .mockResolvedValueOnce(
+        json(
+          { code: 429, message: "too many requests" },
+          { status: 429, headers: { "Retry-After": "0" } }
+        )
+      )
+      .mockResolvedValueOnce(json({ code: 200, data: { task_id: "task-1" } }));
+
+    expect(textOf(await createTask())).toMatch(/^TaskId: task-1\n/);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("reports PiAPI error messages", async () => {
+    fetchMock.mockResolvedValueOnce(
+      json({ code: 400, message: "insufficient credits" }, { status: 400 })
+    );
+
+    expect(textOf(await createTask())).toBe(
+      "Task creation failed: insufficient credits"
+    );
+  });
+});
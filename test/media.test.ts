@@ -0,0 +1,496 @@
+import { randomUUID } from "crypto";
+import { existsSync, readFileSync, writeFileSync } from "fs";
+import { join } from "path";
+import sharp from "sharp";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { connectClient, PiAPIStub, stubPiAPI, textOf } from "./helpers.js";
+
+const outputDir = vi.hoisted(() => {
+  const dir = `${process.env.PIAPI_TASK_LEDGER}-media`;
+  process.env.PIAPI_OUTPUT_DIR = dir;
+  return dir;
+});
+
+let client: Awaited<ReturnType<typeof connectClient>>["client"];
+let close: () => Promise<void>;
+let piapi: PiAPIStub;
+
+// Serves media from example.com and passes everything else to the PiAPI stub
+function stubMedia(
+  media: Record<string, { body: string | Buffer; type: string }>
+) {
+  const piapiFetch = globalThis.fetch;
+  vi.stubGlobal(
+    "fetch",
+    vi.fn(async (url: string, init?: RequestInit) => {
+      if (!url.startsWith("https://example.com/")) {
+        return piapiFetch(url, init);
+      }
+      const file = media[url];
+      return file
+        ? new Response(file.body, { headers: { "Content-Type": file.type } })
+        : new Response("not found", { status: 404, statusText: "Not Found" });
+    })
+  );
+}
+
+// A solid image of the given size
+function image(width: number, height: number, channels: 3 | 4 = 3) {
+  return sharp({
+    create: { width, height, channels, background: "#336699" },
+  })
+    .png()
+    .toBuffer();
+}
+
+// A 100x100 segment of the top half of an image, transparent elsewhere
+function sky() {
+  return sharp({
+    create: {
+      width: 100,
+      height: 100,
+      channels: 4,
+      background: { r: 0, g: 0, b: 0, alpha: 0 },
+    },
+  })
+    .composite([
+      {
+        input: {
+          create: {
+            width: 100,
+            height: 50,
+            channels: 4,
+            background: "#88ccff",
+          },
+        },
+        left: 0,
+        top: 0,
+      },
+    ])
+    .png()
+    .toBuffer();
+}
+
+// A 100x100 opaque mask, white on its bottom half and black elsewhere
+function opaqueMask() {
+  return sharp({
+    create: {
+      width: 100,
+      height: 100,
+      channels: 4,
+      background: { r: 0, g: 0, b: 0, alpha: 1 },
+    },
+  })
+    .composite([
+      {
+        input: {
+          create: {
+            width: 100,
+            height: 50,
+            channels: 4,
+            background: { r: 255, g: 255, b: 255, alpha: 1 },
+          },
+        },
+        left: 0,
+        top: 50,
+      },
+    ])
+    .png()
+    .toBuffer();
+}
+
+// The alpha of the pixel at x, y of an uploaded image
+async function alphaAt(data: Buffer, x: number, y: number) {
+  const { data: pixels, info } = await sharp(data)
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  return pixels[(y * info.width + x) * info.channels + info.channels - 1];
+}
+
+async function sizeOf(content: { data: string }) {
+  const { width, height } = await sharp(
+    Buffer.from(content.data, "base64")
+  ).metadata();
+  return { width, height };
+}
+
+beforeEach(async () => {
+  piapi = stubPiAPI();
+  stubMedia({
+    "https://example.com/1.png": { body: "png-1", type: "image/png" },
+    "https://example.com/copy.png": { body: "png-1", type: "image/png" },
+    "https://example.com/clip": { body: "mp3-1", type: "audio/mpeg" },
+    "https://example.com/small.png": {
+      body: await image(300, 200),
+      type: "image/png",
+    },
+    "https://example.com/large.png": {
+      body: await image(3000, 2000),
+      type: "image/png",
+    },
+    "https://example.com/cutout.png": {
+      body: await image(2048, 2048, 4),
+      type: "image/png",
+    },
+    "https://example.com/sky.png": { body: await sky(), type: "image/png" },
+    "https://example.com/mask.png": {
+      body: await opaqueMask(),
+      type: "image/png",
+    },
+  });
+  ({ client, close } = await connectClient());
+});
+
+afterEach(async () => {
+  await close();
+  vi.unstubAllGlobals();
+});
+
+describe("output directory", () => {
+  it("saves the outputs of a completed task in its folder", async () => {
+    piapi.setTask({ output: { image_url: "https://example.com/1.png" } });
+    const result = await client.callTool({
+      name: "generate_image",
+      arguments: { prompt: "a fox" },
+    });
+
+    const path = join(outputDir, "task-1", "6e474fbcce142d47.png");
+    expect(textOf(result)).toContain(
+      `Saved files:\nhttps://example.com/1.png -> ${path}`
+    );
+    expect(result.structuredContent).toMatchObject({
+      assets: [{ kind: "image", url: "https://example.com/1.png", path }],
+    });
+    expect(readFileSync(path, "utf8")).toBe("png-1");
+  });
+
+  it("keeps the task result when a download fails", async () => {
+    piapi.setTask({ output: { image_url: "https://example.com/gone.png" } });
+    const result = await client.callTool({
+      name: "generate_image",
+      arguments: { prompt: "a fox" },
+    });
+
+    expect(result.isError).toBeFalsy();
+    expect(textOf(result)).toContain(
+      "https://example.com/gone.png -> not saved: HTTP 404 Not Found"
+    );
+    expect(result.structuredContent).toMatchObject({
+      assets: [{ kind: "image", url: "https://example.com/gone.png" }],
+    });
+  });
+});
+
+describe("save_media", () => {
+  it("names files by their content", async () => {
+    const folder = randomUUID();
+    const result = await client.callTool({
+      name: "save_media",
+      arguments: {
+        urls: [
+          "https://example.com/1.png",
+          "https://example.com/copy.png",
+          "https://example.com/clip",
+        ],
+        taskId: folder,
+      },
+    });
+
+    const image = join(outputDir, folder, "6e474fbcce142d47.png");
+    const audio = join(outputDir, folder, "8962eb45b8c1ecd3.mp3");
+    expect(result.structuredContent).toEqual({
+      files: [
+        { url: "https://example.com/1.png", path: image },
+        { url: "https://example.com/copy.png", path: image },
+        { url: "https://example.com/clip", path: audio },
+      ],
+    });
+    expect(existsSync(audio)).toBe(true);
+  });
+
+  it("saves into a shared folder without a task", async () => {
+    const result = await client.callTool({
+      name: "save_media",
+      arguments: { urls: ["https://example.com/1.png"] },
+    });
+    expect(textOf(result)).toContain(join(outputDir, "saved"));
+  });
+
+  it("fails when nothing could be saved", async () => {
+    const result = await client.callTool({
+      name: "save_media",
+      arguments: { urls: ["https://example.com/gone.png"] },
+    });
+    expect(result.isError).toBe(true);
+    expect(textOf(result)).toBe(
+      "Could not save any media:\nhttps://example.com/gone.png: HTTP 404 Not Found"
+    );
+  });
+});
+
+describe("image previews", () => {
+  it("returns the generated images downscaled when asked", async () => {
+    piapi.setTask({
+      output: {
+        image_urls: [
+          "https://example.com/large.png",
+          "https://example.com/cutout.png",
+        ],
+      },
+    });
+    const result = await client.callTool({
+      name: "generate_image",
+      arguments: { prompt: "a fox", preview: true },
+    });
+
+    const images = (result.content as any[]).filter(
+      (content) => content.type === "image"
+    );
+    expect(images.map((content) => content.mimeType)).toEqual([
+      "image/jpeg",
+      "image/png",
+    ]);
+    expect(await sizeOf(images[0])).toEqual({ width: 768, height: 512 });
+    expect(await sizeOf(images[1])).toEqual({ width: 768, height: 768 });
+  });
+
+  it("does not include images by default", async () => {
+    piapi.setTask({ output: { image_url: "https://example.com/small.png" } });
+    const result = await client.callTool({
+      name: "generate_image",
+      arguments: { prompt: "a fox" },
+    });
+    expect(
+      (result.content as any[]).some((content) => content.type === "image")
+    ).toBe(false);
+  });
+
+  it("shows small images as they are and downscales large ones", async () => {
+    const small = await client.callTool({
+      name: "show_image",
+      arguments: { url: "https://example.com/small.png" },
+    });
+    expect(small.content).toEqual([
+      {
+        type: "image",
+        data: (await image(300, 200)).toString("base64"),
+        mimeType: "image/png",
+      },
+    ]);
+
+    const large = await client.callTool({
+      name: "show_image",
+      arguments: { url: "https://example.com/large.png" },
+    });
+    expect(await sizeOf((large.content as any[])[0])).toEqual({
+      width: 768,
+      height: 512,
+    });
+  });
+
+  it("reports urls that are not images", async () => {
+    const result = await client.callTool({
+      name: "show_image",
+      arguments: { url: "https://example.com/clip" },
+    });
+    expect(result.isError).toBe(true);
+    expect(textOf(result)).toBe(
+      "https://example.com/clip is not a supported image"
+    );
+  });
+});
+
+describe("media inputs", () => {
+  it("uploads data: URIs before creating the task", async () => {
+    const png = await image(64, 64);
+    const result = await client.callTool({
+      name: "image_rmbg",
+      arguments: {
+        image: `data:image/png;base64,${png.toString("base64")}`,
+        wait: false,
+      },
+    });
+
+    expect(result.isError, textOf(result)).toBeFalsy();
+    expect(piapi.uploads).toEqual([{ fileName: "image.png", data: png }]);
+    expect(piapi.requests[0].input.image).toBe(
+      "https://upload.example.com/image.png"
+    );
+  });
+
+  it("uploads local files", async () => {
+    const audioPath = `${outputDir}-voice.mp3`;
+    writeFileSync(audioPath, "mp3-data");
+    const result = await client.callTool({
+      name: "tts_zero_shot",
+      arguments: {
+        genText: "hello",
+        refText: "hi",
+        refAudio: audioPath,
+        wait: false,
+      },
+    });
+
+    expect(result.isError, textOf(result)).toBeFalsy();
+    expect(piapi.uploads[0].fileName).toBe(audioPath.split("/").pop());
+    expect(piapi.requests[0].input.ref_audio).toMatch(
+      /^https:\/\/upload\.example\.com\//
+    );
+  });
+
+  it("passes urls through", async () => {
+    await client.callTool({
+      name: "image_rmbg",
+      arguments: { image: "https://example.com/1.png", wait: false },
+    });
+    expect(piapi.uploads).toEqual([]);
+    expect(piapi.requests[0].input.image).toBe("https://example.com/1.png");
+  });
+
+  it("checks the type and size accepted by the model", async () => {
+    const webp = await client.callTool({
+      name: "generate_video_effect_kling",
+      arguments: { image: "data:image/webp;base64,AAAA", effectName: "squish" },
+    });
+    expect(textOf(webp)).toBe(
+      "image must be one of image/jpeg, image/png, got image/webp"
+    );
+
+    const large = await client.callTool({
+      name: "image_rmbg",
+      arguments: {
+        image: `data:image/png;base64,${Buffer.alloc(11 * 1024 * 1024).toString("base64")}`,
+      },
+    });
+    expect(textOf(large)).toBe("image must be at most 10 MB, got 11.0 MB");
+    expect(piapi.uploads).toEqual([]);
+    expect(piapi.requests).toEqual([]);
+  });
+
+  it("reports missing files", async () => {
+    const result = await client.callTool({
+      name: "image_upscale",
+      arguments: { image: "/nonexistent/photo.jpg" },
+    });
+    expect(result.isError).toBe(true);
+    expect(textOf(result)).toMatch(/^image could not be read: ENOENT/);
+  });
+});
+
+describe("inpaint masks", () => {
+  it("cuts rectangles and polygons out of the reference image", async () => {
+    const result = await client.callTool({
+      name: "modify_image",
+      arguments: {
+        prompt: "a balloon",
+        model: "inpaint",
+        referenceImage: "https://example.com/small.png",
+        maskShapes: [
+          { type: "rectangle", x: 10, y: 10, width: 50, height: 40 },
+          {
+            type: "polygon",
+            points: [
+              { x: 200, y: 100 },
+              { x: 290, y: 100 },
+              { x: 290, y: 190 },
+            ],
+          },
+        ],
+        wait: false,
+      },
+    });
+
+    expect(result.isError, textOf(result)).toBeFalsy();
+    const [upload] = piapi.uploads;
+    expect(upload.fileName).toBe("inpaint.png");
+    expect(piapi.requests[0].input.image).toBe(
+      "https://upload.example.com/inpaint.png"
+    );
+    expect(await sizeOf({ data: upload.data.toString("base64") })).toEqual({
+      width: 300,
+      height: 200,
+    });
+    expect(await alphaAt(upload.data, 30, 30)).toBe(0);
+    expect(await alphaAt(upload.data, 280, 120)).toBe(0);
+    expect(await alphaAt(upload.data, 100, 150)).toBe(255);
+  });
+
+  it("repaints the white area of an opaque mask with an alpha channel", async () => {
+    const result = await client.callTool({
+      name: "modify_image",
+      arguments: {
+        prompt: "grass",
+        model: "inpaint",
+        referenceImage: "https://example.com/small.png",
+        mask: "https://example.com/mask.png",
+        wait: false,
+      },
+    });
+
+    expect(result.isError, textOf(result)).toBeFalsy();
+    const [upload] = piapi.uploads;
+    expect(await alphaAt(upload.data, 150, 180)).toBe(0);
+    expect(await alphaAt(upload.data, 150, 20)).toBe(255);
+  });
+
+  it("repaints the segment of an image_segment task", async () => {
+    await client.callTool({
+      name: "image_segment",
+      arguments: {
+        image: "https://example.com/small.png",
+        prompt: "sky",
+        wait: false,
+      },
+    });
+    piapi.setTask({ output: { image_url: "https://example.com/sky.png" } });
+
+    const result = await client.callTool({
+      name: "modify_image",
+      arguments: {
+        prompt: "a sunset sky",
+        model: "inpaint",
+        referenceImage: "https://example.com/small.png",
+        maskTaskId: "task-1",
+        wait: false,
+      },
+    });
+
+    expect(result.isError, textOf(result)).toBeFalsy();
+    const [upload] = piapi.uploads;
+    expect(await alphaAt(upload.data, 150, 20)).toBe(0);
+    expect(await alphaAt(upload.data, 150, 180)).toBe(255);
+  });
+
+  it("rejects masks outside inpaint and segments of other tasks", async () => {
+    const outpaint = await client.callTool({
+      name: "modify_image",
+      arguments: {
+        prompt: "more sky",
+        model: "outpaint",
+        referenceImage: "https://example.com/small.png",
+        mask: "https://example.com/sky.png",
+      },
+    });
+    expect(textOf(outpaint)).toBe(
+      "mask, maskShapes and maskTaskId are only available for inpaint"
+    );
+
+    await client.callTool({
+      name: "generate_image",
+      arguments: { prompt: "a fox", wait: false },
+    });
+    const notSegment = await client.callTool({
+      name: "modify_image",
+      arguments: {
+        prompt: "a sunset sky",
+        model: "inpaint",
+        referenceImage: "https://example.com/small.png",
+        maskTaskId: "task-1",
+      },
+    });
+    expect(textOf(notSegment)).toBe(
+      "TaskId: task-1, maskTaskId must be an image_segment task, got Qubico/flux1-schnell txt2img"
+    );
+    expect(piapi.requests).toHaveLength(1);
+  });
+});
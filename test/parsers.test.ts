@@ -0,0 +1,486 @@
+import { UserError } from "fastmcp";
+import { describe, expect, it } from "vitest";
+import {
+  parseAudioOutput,
+  parseFramePackOutput,
+  parseImageAssets,
+  parseImageOutput,
+  parseKlingOutput,
+  parseLumaOutput,
+  parseMidjourneyDescribeOutput,
+  parseSeedanceOutput,
+  parseSunoMusicOutput,
+  parseTrellisOutput,
+  parseUdioMusicOutput,
+  parseVeo3Output,
+  parseVideoOutput,
+} from "../src/index.js";
+
+const log = {
+  debug: () => {},
+  info: () => {},
+  warn: () => {},
+  error: () => {},
+};
+
+describe("parseImageOutput", () => {
+  it("returns the flux image url", () => {
+    expect(
+      parseImageOutput("t1", { image_url: "https://example.com/1.png" }, log)
+    ).toEqual(["https://example.com/1.png"]);
+  });
+
+  it("returns the grid and temporary urls of a midjourney task", () => {
+    expect(
+      parseImageOutput(
+        "t1",
+        {
+          image_url: "https://example.com/grid.png",
+          image_urls: null,
+          temporary_image_urls: [
+            "https://example.com/1.png",
+            "https://example.com/2.png",
+          ],
+          discord_image_url: "",
+        },
+        log
+      )
+    ).toEqual([
+      "https://example.com/grid.png",
+      "https://example.com/1.png",
+      "https://example.com/2.png",
+    ]);
+  });
+
+  it("lists the flux image repeated in image_urls once", () => {
+    expect(
+      parseImageOutput(
+        "t1",
+        {
+          image_url: "https://example.com/1.png",
+          image_urls: ["https://example.com/1.png"],
+        },
+        log
+      )
+    ).toEqual(["https://example.com/1.png"]);
+  });
+
+  it("returns image_urls when there is no single image url", () => {
+    expect(
+      parseImageOutput(
+        "t1",
+        { image_urls: ["https://example.com/1.png", "https://example.com/2.png"] },
+        log
+      )
+    ).toEqual(["https://example.com/1.png", "https://example.com/2.png"]);
+  });
+
+  it("rejects outputs without any image", () => {
+    expect(() =>
+      parseImageOutput("t1", { image_url: "", image_urls: [] }, log)
+    ).toThrow(UserError);
+  });
+
+  it("rejects malformed outputs", () => {
+    expect(() => parseImageOutput("t1", null, log)).toThrow(
+      "TaskId: t1, Invalid image output format"
+    );
+    expect(() =>
+      parseImageOutput("t1", { image_urls: "https://example.com/1.png" }, log)
+    ).toThrow(UserError);
+  });
+});
+
+describe("parseImageAssets", () => {
+  it("returns the size and background of described images", () => {
+    expect(
+      parseImageAssets(
+        "t1",
+        {
+          images: [
+            {
+              url: "https://example.com/1.png",
+              width: 1024,
+              height: 1024,
+              background: "transparent",
+            },
+            { url: "https://example.com/2.png", background: "opaque" },
+          ],
+        },
+        log
+      )
+    ).toEqual([
+      {
+        url: "https://example.com/1.png",
+        width: 1024,
+        height: 1024,
+        transparent: true,
+      },
+      { url: "https://example.com/2.png", transparent: false },
+    ]);
+  });
+
+  it("returns the urls of other models without metadata", () => {
+    expect(
+      parseImageAssets("t1", { image_url: "https://example.com/1.png" }, log)
+    ).toEqual([{ url: "https://example.com/1.png" }]);
+  });
+
+  it("rejects outputs whose images have no url", () => {
+    expect(() =>
+      parseImageAssets("t1", { images: [{ url: "" }] }, log)
+    ).toThrow("TaskId: t1, Task completed but no image URLs found");
+  });
+});
+
+describe("parseMidjourneyDescribeOutput", () => {
+  it("splits the numbered prompts", () => {
+    expect(
+      parseMidjourneyDescribeOutput(
+        "t1",
+        {
+          description:
+            "1️⃣ a red fox in the snow --ar 3:2\n\n2️⃣ a fox portrait --ar 3:2\n\n3️⃣ wildlife photo\n\n4️⃣ a fox, 4k",
+        },
+        log
+      )
+    ).toEqual([
+      "a red fox in the snow --ar 3:2",
+      "a fox portrait --ar 3:2",
+      "wildlife photo",
+      "a fox, 4k",
+    ]);
+  });
+
+  it("rejects outputs without a description", () => {
+    expect(() =>
+      parseMidjourneyDescribeOutput("t1", { description: "" }, log)
+    ).toThrow("TaskId: t1, Task completed but no prompts found");
+    expect(() =>
+      parseMidjourneyDescribeOutput("t1", { image_url: "" }, log)
+    ).toThrow("TaskId: t1, Invalid describe output format");
+  });
+});
+
+describe("parseAudioOutput and parseVideoOutput", () => {
+  it("return the single url", () => {
+    expect(
+      parseAudioOutput("t1", { audio_url: "https://example.com/a.mp3" }, log)
+    ).toBe("https://example.com/a.mp3");
+    expect(
+      parseVideoOutput("t1", { video_url: "https://example.com/v.mp4" }, log)
+    ).toBe("https://example.com/v.mp4");
+  });
+
+  it("reject empty urls", () => {
+    expect(() => parseAudioOutput("t1", { audio_url: "" }, log)).toThrow(
+      UserError
+    );
+    expect(() => parseVideoOutput("t1", { video_url: "" }, log)).toThrow(
+      UserError
+    );
+  });
+
+  it("reject malformed outputs", () => {
+    expect(() => parseAudioOutput("t1", { url: "x" }, log)).toThrow(
+      "TaskId: t1, Invalid audio output format"
+    );
+    expect(() => parseVideoOutput("t1", "video.mp4", log)).toThrow(
+      "TaskId: t1, Invalid video output format"
+    );
+  });
+});
+
+describe("parseKlingOutput", () => {
+  const work = (url: string) => ({
+    status: 99,
+    video: {
+      resource: `${url}?watermark`,
+      resource_without_watermark: url,
+      height: 720,
+      width: 1280,
+      duration: 5100,
+    },
+  });
+
+  it("lists the video url once when it repeats the first work", () => {
+    expect(
+      parseKlingOutput(
+        "t1",
+        {
+          video_url: "https://example.com/1.mp4",
+          works: [
+            work("https://example.com/1.mp4"),
+            work("https://example.com/2.mp4"),
+          ],
+        },
+        log
+      )
+    ).toEqual([
+      { url: "https://example.com/1.mp4", width: 1280, height: 720, duration: 5.1 },
+      { url: "https://example.com/2.mp4", width: 1280, height: 720, duration: 5.1 },
+    ]);
+  });
+
+  it("returns the video url of an output without works", () => {
+    expect(
+      parseKlingOutput(
+        "t1",
+        { video_url: "https://example.com/1.mp4", works: [] },
+        log
+      )
+    ).toEqual([{ url: "https://example.com/1.mp4" }]);
+  });
+
+  it("rejects outputs without any video", () => {
+    expect(() =>
+      parseKlingOutput("t1", { video_url: "", works: [] }, log)
+    ).toThrow("TaskId: t1, Task completed but no video/work URLs found");
+  });
+
+  it("rejects malformed works", () => {
+    expect(() =>
+      parseKlingOutput(
+        "t1",
+        { video_url: "https://example.com/1.mp4", works: [{ video: null }] },
+        log
+      )
+    ).toThrow("TaskId: t1, Invalid kling output format");
+  });
+});
+
+describe("parseLumaOutput", () => {
+  it("returns the raw video and last frame", () => {
+    const [video, lastFrame] = parseLumaOutput(
+      "t1",
+      {
+        video: { url: "https://example.com/wm.mp4", width: 1360, height: 752 },
+        video_raw: { url: "https://example.com/v.mp4", width: 1360, height: 752 },
+        last_frame: { url: "https://example.com/f.png", width: 1360, height: 752 },
+      },
+      log
+    );
+    expect(video).toEqual({
+      url: "https://example.com/v.mp4",
+      width: 1360,
+      height: 752,
+    });
+    expect(lastFrame.url).toBe("https://example.com/f.png");
+  });
+
+  it("rejects outputs still missing the last frame", () => {
+    expect(() =>
+      parseLumaOutput(
+        "t1",
+        {
+          video_raw: { url: "https://example.com/v.mp4", width: 1360, height: 752 },
+          last_frame: null,
+        },
+        log
+      )
+    ).toThrow("TaskId: t1, Invalid luma output format");
+  });
+});
+
+describe("parseSunoMusicOutput", () => {
+  it("returns every clip of the plain JSON clips object", () => {
+    expect(
+      parseSunoMusicOutput(
+        "t1",
+        {
+          clips: {
+            "clip-1": {
+              id: "clip-1",
+              audio_url: "https://example.com/1.mp3",
+              image_url: "https://example.com/1.png",
+              metadata: { duration: 120.5 },
+            },
+            "clip-2": {
+              id: "clip-2",
+              audio_url: "https://example.com/2.mp3",
+              image_url: "https://example.com/2.png",
+            },
+          },
+        },
+        log
+      )
+    ).toEqual([
+      {
+        id: "clip-1",
+        audio_url: "https://example.com/1.mp3",
+        image_url: "https://example.com/1.png",
+        duration: 120.5,
+      },
+      {
+        id: "clip-2",
+        audio_url: "https://example.com/2.mp3",
+        image_url: "https://example.com/2.png",
+      },
+    ]);
+  });
+
+  it("returns the title, tags and lyrics of a clip", () => {
+    expect(
+      parseSunoMusicOutput(
+        "t1",
+        {
+          clips: {
+            "clip-1": {
+              title: "Hello",
+              audio_url: "https://example.com/1.mp3",
+              image_url: "https://example.com/1.png",
+              model_name: "chirp-v3",
+              metadata: {
+                tags: "pop",
+                prompt: "[Verse]\nHello",
+                duration: null,
+                error_message: null,
+              },
+            },
+          },
+        },
+        log
+      )
+    ).toEqual([
+      {
+        id: "clip-1",
+        title: "Hello",
+        audio_url: "https://example.com/1.mp3",
+        image_url: "https://example.com/1.png",
+        tags: "pop",
+        lyrics: "[Verse]\nHello",
+        model: "chirp-v3",
+      },
+    ]);
+  });
+
+  it("rejects outputs without clips", () => {
+    expect(() => parseSunoMusicOutput("t1", { clips: {} }, log)).toThrow(
+      "TaskId: t1, Task completed but no audio/image URLs found"
+    );
+  });
+
+  it("rejects malformed clips", () => {
+    expect(() =>
+      parseSunoMusicOutput(
+        "t1",
+        { clips: [{ audio_url: "https://example.com/1.mp3" }] },
+        log
+      )
+    ).toThrow("TaskId: t1, Invalid suno music output format");
+  });
+});
+
+describe("parseUdioMusicOutput", () => {
+  it("rejects outputs whose songs are not rendered", () => {
+    expect(() =>
+      parseUdioMusicOutput("t1", { songs: [{ id: "s1", song_path: "" }] }, log)
+    ).toThrow("TaskId: t1, Task completed but no audio URLs found");
+  });
+
+  it("rejects malformed songs", () => {
+    expect(() =>
+      parseUdioMusicOutput("t1", { songs: [{ song_path: "x" }] }, log)
+    ).toThrow("TaskId: t1, Invalid udio music output format");
+  });
+});
+
+describe("parseVeo3Output and parseSeedanceOutput", () => {
+  it("returns the veo 3 video and its metadata", () => {
+    expect(
+      parseVeo3Output(
+        "t1",
+        { video: { url: "https://example.com/v.mp4", duration: 8 } },
+        log
+      )
+    ).toEqual({
+      url: "https://example.com/v.mp4",
+      duration: 8,
+      hasAudio: false,
+    });
+  });
+
+  it("rejects the output shape of other video models", () => {
+    expect(() =>
+      parseVeo3Output("t1", { video_url: "https://example.com/v.mp4" }, log)
+    ).toThrow("TaskId: t1, Invalid veo3 output format");
+    expect(() =>
+      parseSeedanceOutput(
+        "t1",
+        { video: { url: "https://example.com/v.mp4" } },
+        log
+      )
+    ).toThrow("TaskId: t1, Invalid seedance output format");
+  });
+
+  it("rejects an empty seedance video", () => {
+    expect(() => parseSeedanceOutput("t1", { video: "" }, log)).toThrow(
+      "TaskId: t1, Task completed but no video URL found"
+    );
+  });
+});
+
+describe("parseFramePackOutput", () => {
+  it("returns the video and its duration", () => {
+    expect(
+      parseFramePackOutput(
+        "t1",
+        { video_url: "https://example.com/v.mp4", duration: 10 },
+        log
+      )
+    ).toEqual({ url: "https://example.com/v.mp4", duration: 10 });
+  });
+
+  it("rejects the output shape of other video models", () => {
+    expect(() =>
+      parseFramePackOutput("t1", { video: "https://example.com/v.mp4" }, log)
+    ).toThrow("TaskId: t1, Invalid framepack output format");
+  });
+
+  it("rejects an empty video", () => {
+    expect(() => parseFramePackOutput("t1", { video_url: "" }, log)).toThrow(
+      "TaskId: t1, Task completed but no video URL found"
+    );
+  });
+});
+
+describe("parseTrellisOutput", () => {
+  it("returns the image, video and model file", () => {
+    expect(
+      parseTrellisOutput(
+        "t1",
+        {
+          no_background_image: "https://example.com/a.png",
+          combined_video: "https://example.com/a.mp4",
+          model_file: "https://example.com/a.glb",
+        },
+        log
+      )
+    ).toEqual([
+      "https://example.com/a.png",
+      "https://example.com/a.mp4",
+      "https://example.com/a.glb",
+    ]);
+  });
+
+  it("rejects partial outputs", () => {
+    expect(() =>
+      parseTrellisOutput(
+        "t1",
+        {
+          no_background_image: "https://example.com/a.png",
+          combined_video: "",
+          model_file: "https://example.com/a.glb",
+        },
+        log
+      )
+    ).toThrow(UserError);
+    expect(() =>
+      parseTrellisOutput(
+        "t1",
+        { no_background_image: "https://example.com/a.png" },
+        log
+      )
+    ).toThrow("TaskId: t1, Invalid trellis output format");
+  });
+});
@@ -0,0 +1,141 @@
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { FastMCP } from "fastmcp";
+import { createServer as createNetServer } from "net";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createServer } from "../src/index.js";
+import { PiAPIStub, stubPiAPI, textOf } from "./helpers.js";
+
+// The clients talk to the server for real, only PiAPI is stubbed
+const realFetch = globalThis.fetch;
+
+let server: FastMCP<any>;
+let endpoint: string;
+let piapi: PiAPIStub;
+const clients: Client[] = [];
+
+// A port nothing listens on, picked by the OS
+function freePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const probe = createNetServer();
+    probe.once("error", reject);
+    probe.listen(0, "127.0.0.1", () => {
+      const { port } = probe.address() as { port: number };
+      probe.close(() => resolve(port));
+    });
+  });
+}
+
+async function connect(apiKey: string) {
+  const client = new Client({ name: "piapi-test-client", version: "1.0.0" });
+  await client.connect(
+    new StreamableHTTPClientTransport(new URL(endpoint), {
+      fetch: realFetch,
+      requestInit: { headers: { "X-PiAPI-Key": apiKey } },
+    })
+  );
+  clients.push(client);
+  return client;
+}
+
+function initialize(headers: Record<string, string> = {}) {
+  return realFetch(endpoint, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Accept: "application/json, text/event-stream",
+      ...headers,
+    },
+    body: JSON.stringify({
+      jsonrpc: "2.0",
+      id: 1,
+      method: "initialize",
+      params: {
+        protocolVersion: "2025-03-26",
+        capabilities: {},
+        clientInfo: { name: "piapi-test-client", version: "1.0.0" },
+      },
+    }),
+  });
+}
+
+beforeEach(async () => {
+  piapi = stubPiAPI({ status: "pending" });
+  const port = await freePort();
+  endpoint = `http://127.0.0.1:${port}/mcp`;
+  server = createServer();
+  await server.start({
+    transportType: "httpStream",
+    httpStream: { host: "127.0.0.1", port, endpoint: "/mcp" },
+  });
+});
+
+afterEach(async () => {
+  await Promise.all(clients.splice(0).map((client) => client.close()));
+  await server.stop();
+  vi.unstubAllGlobals();
+});
+
+describe("http sessions", () => {
+  it("rejects requests without an API key", async () => {
+    const response = await initialize();
+    expect(response.status).toBe(401);
+    expect(piapi.calls).toEqual([]);
+  });
+
+  it("rejects API keys refused by PiAPI and remembers them", async () => {
+    piapi.rejectApiKey("wrong-key");
+
+    expect((await initialize({ "X-PiAPI-Key": "wrong-key" })).status).toBe(401);
+    expect((await initialize({ "X-PiAPI-Key": "wrong-key" })).status).toBe(401);
+    expect(piapi.calls).toEqual([
+      { method: "GET", url: "https://api.piapi.ai/account/info" },
+    ]);
+  });
+
+  it("uses the API key of each session", async () => {
+    const alice = await connect("alice-key");
+    const bob = await connect("bob-key");
+
+    await alice.callTool({
+      name: "generate_image",
+      arguments: { prompt: "a fox", wait: false },
+    });
+    await bob.callTool({ name: "get_task", arguments: { taskId: "task-1" } });
+
+    const taskKeys = piapi.calls
+      .map((call, i) => ({ ...call, apiKey: piapi.apiKeys[i] }))
+      .filter((call) => call.url.includes("/api/v1/task"))
+      .map(({ method, apiKey }) => `${method} ${apiKey}`);
+    expect(taskKeys).toEqual(["POST alice-key", "GET bob-key"]);
+  });
+
+  it("only shows the ledger records of the session's API key", async () => {
+    const alice = await connect("alice-key");
+    const bob = await connect("bob-key");
+    await alice.callTool({
+      name: "generate_image",
+      arguments: { prompt: "a fox", wait: false },
+    });
+
+    const aliceTasks = await alice.callTool({ name: "list_tasks", arguments: {} });
+    expect(aliceTasks.structuredContent).toMatchObject({
+      total: 1,
+      tasks: [{ taskId: "task-1" }],
+    });
+    const bobTasks = await bob.callTool({ name: "list_tasks", arguments: {} });
+    expect(textOf(bobTasks)).toBe("No tasks found");
+
+    const record = await bob.callTool({
+      name: "get_task_record",
+      arguments: { taskId: "task-1" },
+    });
+    expect(record.isError).toBe(true);
+    await expect(
+      bob.readResource({ uri: "piapi://task/task-1" })
+    ).rejects.toThrow("No record found in the task ledger");
+    await expect(
+      alice.readResource({ uri: "piapi://task/task-1" })
+    ).resolves.toBeDefined();
+  });
+});
@@ -0,0 +1,10 @@
+import { randomUUID } from "crypto";
+import { tmpdir } from "os";
+import { join } from "path";
+
+// Give every test file its own task ledger
+process.env.PIAPI_TASK_LEDGER = join(
+  tmpdir(),
+  `piapi-mcp-server-test-${randomUUID()}`,
+  "tasks.json"
+);
@@ -0,0 +1,376 @@
+import { ResourceUpdatedNotificationSchema } from "@modelcontextprotocol/sdk/types.js";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { connectClient, PiAPIStub, stubPiAPI, textOf } from "./helpers.js";
+
+let client: Awaited<ReturnType<typeof connectClient>>["client"];
+let close: () => Promise<void>;
+let piapi: PiAPIStub;
+
+beforeEach(async () => {
+  piapi = stubPiAPI({ status: "pending" });
+  ({ client, close } = await connectClient());
+});
+
+afterEach(async () => {
+  await close();
+  vi.unstubAllGlobals();
+});
+
+async function submitImageTask(prompt = "a fox") {
+  const result = await client.callTool({
+    name: "generate_image",
+    arguments: { prompt, wait: false },
+  });
+  return textOf(result);
+}
+
+describe("task tools", () => {
+  it("returns the task id right away when not waiting", async () => {
+    expect(await submitImageTask()).toBe(
+      "TaskId: task-1\nTask submitted successfully!\nUse get_task or wait_for_task with this TaskId to get the result, or subscribe to piapi://task/task-1"
+    );
+    expect(piapi.calls).toEqual([
+      { method: "POST", url: "https://api.piapi.ai/api/v1/task" },
+    ]);
+  });
+
+  it("returns the submitted and running task as structured content", async () => {
+    const submitted = await client.callTool({
+      name: "generate_image",
+      arguments: { prompt: "a fox", wait: false },
+    });
+    expect(submitted.structuredContent).toEqual({
+      taskId: "task-1",
+      model: "Qubico/flux1-schnell",
+      task_type: "txt2img",
+      status: "pending",
+      assets: [],
+    });
+
+    piapi.setTask({ status: "in_progress", progress: 40 });
+    const running = await client.callTool({
+      name: "get_task",
+      arguments: { taskId: "task-1" },
+    });
+    expect(running.structuredContent).toMatchObject({
+      status: "in_progress",
+      progress: 40,
+      usage: 100,
+      assets: [],
+    });
+  });
+
+  it("reports the status of a running task", async () => {
+    await submitImageTask();
+    piapi.setTask({ status: "in_progress", progress: 40 });
+
+    const result = await client.callTool({
+      name: "get_task",
+      arguments: { taskId: "task-1" },
+    });
+    expect(textOf(result)).toBe(
+      "TaskId: task-1\nModel: Qubico/flux1-schnell\nTask type: txt2img\nStatus: in_progress\nProgress: 40%"
+    );
+  });
+
+  it("formats a completed task by its model", async () => {
+    await submitImageTask();
+    piapi.setTask({ output: { image_url: "https://example.com/1.png" } });
+
+    for (const name of ["get_task", "wait_for_task"]) {
+      const result = await client.callTool({
+        name,
+        arguments: { taskId: "task-1" },
+      });
+      expect(textOf(result)).toContain(
+        "Image generated successfully!\nUsage: 100 tokens\nImage urls:\nhttps://example.com/1.png"
+      );
+    }
+  });
+
+  it("reports a failed task as an error", async () => {
+    await submitImageTask();
+    piapi.setTask({ status: "failed", error: { message: "nsfw content" } });
+
+    const result = await client.callTool({
+      name: "get_task",
+      arguments: { taskId: "task-1" },
+    });
+    expect(result.isError).toBe(true);
+    expect(textOf(result)).toBe(
+      "TaskId: task-1, Generation failed: nsfw content"
+    );
+  });
+
+  it("forwards the reported progress and status while waiting", async () => {
+    await submitImageTask();
+    piapi.queueTasks(
+      { status: "pending" },
+      { status: "in_progress", progress: 40 },
+      { status: "in_progress", progress: 40 },
+      { status: "in_progress", progress: 80 },
+      { output: { image_url: "https://example.com/1.png" } }
+    );
+
+    const notifications: { progress: number; message?: string }[] = [];
+    const result = await client.callTool(
+      { name: "wait_for_task", arguments: { taskId: "task-1" } },
+      undefined,
+      {
+        onprogress: ({ progress, message }) => {
+          notifications.push({ progress, message });
+        },
+      }
+    );
+    expect(textOf(result)).toContain("Image generated successfully!");
+    expect(notifications).toEqual([
+      { progress: 0, message: "Status: pending" },
+      { progress: 40, message: "Status: in_progress, 40%" },
+      { progress: 80, message: "Status: in_progress, 80%" },
+      { progress: 100, message: "Status: completed" },
+    ]);
+  }, 15_000);
+
+  it("stops polling as soon as the call is aborted", async () => {
+    await submitImageTask();
+    const controller = new AbortController();
+    const call = client.callTool(
+      { name: "wait_for_task", arguments: { taskId: "task-1" } },
+      undefined,
+      { signal: controller.signal }
+    );
+    // Let the first polls happen before aborting
+    await vi.waitFor(
+      () => {
+        expect(piapi.calls.length).toBeGreaterThan(2);
+      },
+      { timeout: 5000 }
+    );
+    controller.abort();
+    await expect(call).rejects.toThrow();
+
+    const polls = piapi.calls.length;
+    await new Promise((resolve) => setTimeout(resolve, 3000));
+    expect(piapi.calls).toHaveLength(polls);
+  }, 15_000);
+
+  it(
+    "returns the status when the task outlives the wait",
+    async () => {
+      await submitImageTask();
+
+      const result = await client.callTool({
+        name: "wait_for_task",
+        arguments: { taskId: "task-1", timeout: 5 },
+      });
+      expect(result.isError).toBeFalsy();
+      expect(textOf(result)).toContain(
+        "Status: pending\nTask is still running, call wait_for_task again to keep waiting"
+      );
+    },
+    15_000
+  );
+
+  it("cancels a task", async () => {
+    await submitImageTask();
+    const cancelled = await client.callTool({
+      name: "cancel_task",
+      arguments: { taskId: "task-1" },
+    });
+    expect(textOf(cancelled)).toBe(
+      "TaskId: task-1\nTask cancelled successfully!"
+    );
+
+    piapi.setCancelResponse({ code: 400, message: "task is processing" });
+    const refused = await client.callTool({
+      name: "cancel_task",
+      arguments: { taskId: "task-1" },
+    });
+    expect(textOf(refused)).toBe(
+      "TaskId: task-1\nTask could not be cancelled: task is processing"
+    );
+  });
+});
+
+describe("task ledger tools", () => {
+  it("lists recorded tasks with filters", async () => {
+    // Earlier tests share the ledger, only list the tasks of this one
+    const since = new Date().toISOString();
+    await submitImageTask("a fox");
+    await client.callTool({
+      name: "generate_video_wan",
+      arguments: { prompt: "rain", wait: false },
+    });
+
+    const all = await client.callTool({
+      name: "list_tasks",
+      arguments: { since },
+    });
+    expect(textOf(all)).toMatch(/^Found 2 tasks\n/);
+
+    const images = await client.callTool({
+      name: "list_tasks",
+      arguments: { toolName: "generate_image", since },
+    });
+    expect(textOf(images)).toMatch(/^Found 1 tasks\n/);
+    expect(textOf(images)).toContain("task-1");
+
+    const limited = await client.callTool({
+      name: "list_tasks",
+      arguments: { limit: 1, since },
+    });
+    expect(textOf(limited)).toMatch(/^Found 2 tasks, showing the latest 1\n/);
+
+    const none = await client.callTool({
+      name: "list_tasks",
+      arguments: { status: "failed", since },
+    });
+    expect(textOf(none)).toBe("No tasks found");
+  });
+
+  it("returns the full record of a task", async () => {
+    await submitImageTask();
+    piapi.setTask({ output: { image_url: "https://example.com/1.png" } });
+    await client.callTool({ name: "get_task", arguments: { taskId: "task-1" } });
+
+    const result = await client.callTool({
+      name: "get_task_record",
+      arguments: { taskId: "task-1" },
+    });
+    const record = JSON.parse(textOf(result));
+    expect(record).toMatchObject({
+      taskId: "task-1",
+      toolName: "generate_image",
+      model: "Qubico/flux1-schnell",
+      taskType: "txt2img",
+      request: { model: "Qubico/flux1-schnell", task_type: "txt2img" },
+      status: "completed",
+      usage: 100,
+      urls: ["https://example.com/1.png"],
+    });
+  });
+
+  it("only updates a record when its task changes", async () => {
+    await submitImageTask();
+    const recordOf = async () =>
+      JSON.parse(
+        textOf(
+          await client.callTool({
+            name: "get_task_record",
+            arguments: { taskId: "task-1" },
+          })
+        )
+      );
+    piapi.setTask({ status: "in_progress", progress: 40 });
+    await client.callTool({ name: "get_task", arguments: { taskId: "task-1" } });
+    const running = await recordOf();
+
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    piapi.setTask({ status: "in_progress", progress: 60 });
+    await client.callTool({ name: "get_task", arguments: { taskId: "task-1" } });
+    expect(await recordOf()).toEqual(running);
+
+    piapi.setTask({ status: "failed", error: { message: "nsfw content" } });
+    await client.callTool({ name: "get_task", arguments: { taskId: "task-1" } });
+    const failed = await recordOf();
+    expect(failed.status).toBe("failed");
+    expect(failed.updatedAt > running.updatedAt).toBe(true);
+  });
+
+  it("keeps only the size of inline data", async () => {
+    const mask = Buffer.alloc(3000, 1);
+    await client.callTool({
+      name: "midjourney_inpaint",
+      arguments: {
+        parentTaskId: "mj-2",
+        mask: `data:image/png;base64,${mask.toString("base64")}`,
+        prompt: "a hat",
+        wait: false,
+      },
+    });
+
+    const result = await client.callTool({
+      name: "get_task_record",
+      arguments: { taskId: "task-1" },
+    });
+    expect(JSON.parse(textOf(result)).request.input).toEqual({
+      origin_task_id: "mj-2",
+      mask: "[base64 data, 3000 bytes]",
+      prompt: "a hat",
+      process_mode: "fast",
+    });
+  });
+
+  it("reports unknown tasks as errors", async () => {
+    const result = await client.callTool({
+      name: "get_task_record",
+      arguments: { taskId: "missing" },
+    });
+    expect(result.isError).toBe(true);
+    expect(textOf(result)).toBe(
+      "TaskId: missing, No record found in the task ledger"
+    );
+  });
+});
+
+describe("task resources", () => {
+  it("reads a task as JSON", async () => {
+    await submitImageTask();
+    piapi.setTask({ status: "in_progress", progress: 70 });
+
+    const { contents } = await client.readResource({
+      uri: "piapi://task/task-1",
+    });
+    expect(contents[0].mimeType).toBe("application/json");
+    expect(JSON.parse(contents[0].text as string)).toMatchObject({
+      taskId: "task-1",
+      model: "Qubico/flux1-schnell",
+      status: "in_progress",
+      progress: 70,
+    });
+  });
+});
+
+describe("task subscriptions", () => {
+  it("notifies subscribers when the task changes", async () => {
+    await submitImageTask();
+    const updated: string[] = [];
+    client.setNotificationHandler(
+      ResourceUpdatedNotificationSchema,
+      (notification) => {
+        updated.push(notification.params.uri);
+      }
+    );
+
+    await client.subscribeResource({ uri: "piapi://task/task-1" });
+    await vi.waitFor(() => expect(updated).toHaveLength(1));
+
+    piapi.setTask({
+      status: "completed",
+      output: { image_url: "https://img.example.com/fox.png" },
+    });
+    await client.callTool({
+      name: "get_task",
+      arguments: { taskId: "task-1" },
+    });
+    await vi.waitFor(() =>
+      expect(updated).toEqual(["piapi://task/task-1", "piapi://task/task-1"])
+    );
+  });
+
+  it("refuses to subscribe to a task of another API key", async () => {
+    const other = await connectClient({ apiKey: "other-api-key" });
+    try {
+      await other.client.callTool({
+        name: "generate_image",
+        arguments: { prompt: "a fox", wait: false },
+      });
+    } finally {
+      await other.close();
+    }
+
+    await expect(
+      client.subscribeResource({ uri: "piapi://task/task-1" })
+    ).rejects.toThrow("TaskId: task-1, No record found in the task ledger");
+  });
+});
@@ -0,0 +1,1910 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { connectClient, PiAPIStub, stubPiAPI, textOf } from "./helpers.js";
+
+const NEGATIVE_IMAGE_PROMPT = "chaos, bad photo, low quality, low resolution";
+const NEGATIVE_VIDEO_PROMPT = "chaos, bad video, low quality, low resolution";
+
+let client: Awaited<ReturnType<typeof connectClient>>["client"];
+let close: () => Promise<void>;
+let piapi: PiAPIStub;
+
+beforeEach(async () => {
+  piapi = stubPiAPI();
+  ({ client, close } = await connectClient());
+});
+
+afterEach(async () => {
+  await close();
+  vi.unstubAllGlobals();
+});
+
+// Submits a tool call without waiting for the task and returns the body
+// sent to PiAPI
+async function requestBodyOf(name: string, args: Record<string, unknown>) {
+  const result = await client.callTool({
+    name,
+    arguments: { ...args, wait: false },
+  });
+  expect(result.isError, textOf(result)).toBeFalsy();
+  expect(piapi.requests).toHaveLength(1);
+  return piapi.requests[0];
+}
+
+describe("tool list", () => {
+  it("registers every tool", async () => {
+    const { tools } = await client.listTools();
+    expect(tools.map((tool) => tool.name).sort()).toEqual([
+      "cancel_task",
+      "concat_music_suno",
+      "derive_image",
+      "edit_image",
+      "extend_music_suno",
+      "extend_video_kling",
+      "extend_video_luma",
+      "generate_3d_model",
+      "generate_image",
+      "generate_image_controlnet",
+      "generate_image_gpt4o",
+      "generate_image_ideogram",
+      "generate_lyrics_suno",
+      "generate_music_for_video",
+      "generate_music_suno",
+      "generate_music_udio",
+      "generate_video_effect_kling",
+      "generate_video_framepack",
+      "generate_video_hailuo",
+      "generate_video_hunyuan",
+      "generate_video_kling",
+      "generate_video_luma",
+      "generate_video_seedance",
+      "generate_video_skyreels",
+      "generate_video_veo3",
+      "generate_video_wan",
+      "get_task",
+      "get_task_record",
+      "image_faceswap",
+      "image_rmbg",
+      "image_segment",
+      "image_upscale",
+      "lip_sync_kling",
+      "list_tasks",
+      "midjourney_blend",
+      "midjourney_describe",
+      "midjourney_imagine",
+      "midjourney_inpaint",
+      "midjourney_pan",
+      "midjourney_reroll",
+      "midjourney_upscale",
+      "midjourney_variation",
+      "midjourney_zoom",
+      "modify_image",
+      "save_media",
+      "show_image",
+      "tts_zero_shot",
+      "video_faceswap",
+      "video_upscale",
+      "virtual_try_on_kling",
+      "wait_for_task",
+    ]);
+  });
+
+  it("declares the output schema of structured results", async () => {
+    const { tools } = await client.listTools();
+    const outputSchemaOf = (name: string) =>
+      tools.find((tool) => tool.name === name)?.outputSchema;
+
+    expect(outputSchemaOf("generate_image")?.properties).toHaveProperty(
+      "assets"
+    );
+    expect(outputSchemaOf("get_task")).toEqual(outputSchemaOf("generate_image"));
+    expect(outputSchemaOf("cancel_task")?.required).toEqual([
+      "taskId",
+      "cancelled",
+      "message",
+    ]);
+    expect(outputSchemaOf("show_image")).toBeUndefined();
+  });
+});
+
+describe("image and video toolkit", () => {
+  it("builds an image face swap request", async () => {
+    expect(
+      await requestBodyOf("image_faceswap", {
+        swapImage: "https://example.com/face.png",
+        targetImage: "https://example.com/target.png",
+      })
+    ).toEqual({
+      model: "Qubico/image-toolkit",
+      task_type: "face-swap",
+      input: {
+        swap_image: "https://example.com/face.png",
+        target_image: "https://example.com/target.png",
+      },
+    });
+  });
+
+  it("builds a background removal request", async () => {
+    expect(
+      await requestBodyOf("image_rmbg", { image: "https://example.com/a.png" })
+    ).toEqual({
+      model: "Qubico/image-toolkit",
+      task_type: "background-remove",
+      input: { image: "https://example.com/a.png" },
+    });
+  });
+
+  it("builds a segment request with the default factor", async () => {
+    expect(
+      await requestBodyOf("image_segment", {
+        image: "https://example.com/a.png",
+        prompt: "the cat",
+      })
+    ).toMatchObject({
+      model: "Qubico/image-toolkit",
+      task_type: "segment",
+      input: {
+        image: "https://example.com/a.png",
+        prompt: "the cat",
+        segment_factor: -15,
+      },
+    });
+  });
+
+  it("builds an upscale request", async () => {
+    expect(
+      await requestBodyOf("image_upscale", {
+        image: "https://example.com/a.png",
+        scale: 4,
+      })
+    ).toEqual({
+      model: "Qubico/image-toolkit",
+      task_type: "upscale",
+      input: {
+        image: "https://example.com/a.png",
+        scale: 4,
+        face_enhance: false,
+      },
+    });
+  });
+
+  it("rejects an upscale factor out of range", async () => {
+    await expect(
+      client.callTool({
+        name: "image_upscale",
+        arguments: { image: "https://example.com/a.png", scale: 20 },
+      })
+    ).rejects.toThrow();
+    expect(piapi.requests).toHaveLength(0);
+  });
+
+  it("builds video face swap and upscale requests", async () => {
+    expect(
+      await requestBodyOf("video_faceswap", {
+        swapImage: "https://example.com/face.png",
+        targetVideo: "https://example.com/target.mp4",
+      })
+    ).toEqual({
+      model: "Qubico/video-toolkit",
+      task_type: "face-swap",
+      input: {
+        swap_image: "https://example.com/face.png",
+        target_video: "https://example.com/target.mp4",
+      },
+    });
+
+    piapi.requests.length = 0;
+    expect(
+      await requestBodyOf("video_upscale", {
+        video: "https://example.com/a.mp4",
+      })
+    ).toEqual({
+      model: "Qubico/video-toolkit",
+      task_type: "upscale",
+      input: { video: "https://example.com/a.mp4" },
+    });
+  });
+});
+
+describe("generate_image", () => {
+  it("uses schnell with its default steps", async () => {
+    expect(await requestBodyOf("generate_image", { prompt: "a fox" })).toEqual({
+      model: "Qubico/flux1-schnell",
+      task_type: "txt2img",
+      input: {
+        prompt: "a fox",
+        negative_prompt: NEGATIVE_IMAGE_PROMPT,
+        width: 1024,
+        height: 1024,
+        steps: 4,
+      },
+    });
+  });
+
+  it("clamps steps to the model maximum", async () => {
+    const body = await requestBodyOf("generate_image", {
+      prompt: "a fox",
+      steps: "100",
+    });
+    expect(body.input.steps).toBe(10);
+  });
+
+  it("uses dev img2img when a reference image is given", async () => {
+    expect(
+      await requestBodyOf("generate_image", {
+        prompt: "a fox",
+        model: "dev",
+        referenceImage: "https://example.com/fox.png",
+        width: "512",
+        height: 768,
+      })
+    ).toEqual({
+      model: "Qubico/flux1-dev",
+      task_type: "img2img",
+      input: {
+        prompt: "a fox",
+        negative_prompt: NEGATIVE_IMAGE_PROMPT,
+        image: "https://example.com/fox.png",
+        width: 512,
+        height: 768,
+        steps: 25,
+      },
+    });
+  });
+
+  it("switches to the advanced model for loras", async () => {
+    expect(
+      await requestBodyOf("generate_image", {
+        prompt: "a fox",
+        loras: [{ lora: "mystic-realism" }],
+      })
+    ).toEqual({
+      model: "Qubico/flux1-dev-advanced",
+      task_type: "txt2img-lora",
+      input: {
+        prompt: "a fox",
+        negative_prompt: NEGATIVE_IMAGE_PROMPT,
+        width: 1024,
+        height: 1024,
+        steps: 4,
+        lora_settings: [{ lora_type: "mystic-realism" }],
+      },
+    });
+  });
+
+  it("uses img2img-lora for a lora with a reference image", async () => {
+    const body = await requestBodyOf("generate_image", {
+      prompt: "a fox",
+      model: "dev",
+      loras: [{ lora: "ob3d-isometric-3d-room" }],
+      referenceImage: "https://example.com/fox.png",
+    });
+    expect(body.task_type).toBe("img2img-lora");
+    expect(body.input.image).toBe("https://example.com/fox.png");
+    expect(body.input.steps).toBe(25);
+  });
+
+  it("stacks built-in and custom loras with their strength", async () => {
+    const body = await requestBodyOf("generate_image", {
+      prompt: "a fox",
+      loras: [
+        { lora: "mystic-realism", strength: 0.6 },
+        { lora: "https://example.com/brand.safetensors", strength: 1.2 },
+      ],
+      seed: 1234,
+      batchSize: 2,
+    });
+    expect(body.input).toMatchObject({
+      seed: 1234,
+      batch_size: 2,
+      lora_settings: [
+        { lora_type: "mystic-realism", lora_strength: 0.6 },
+        {
+          lora_type: "https://example.com/brand.safetensors",
+          lora_strength: 1.2,
+        },
+      ],
+    });
+  });
+
+  it("still takes a single lora as shorthand for loras", async () => {
+    const body = await requestBodyOf("generate_image", {
+      prompt: "a fox",
+      lora: "mystic-realism",
+    });
+    expect(body.model).toBe("Qubico/flux1-dev-advanced");
+    expect(body.input.lora_settings).toEqual([
+      { lora_type: "mystic-realism", lora_strength: 1 },
+    ]);
+
+    piapi.requests.length = 0;
+    expect(
+      (await requestBodyOf("generate_image", { prompt: "a fox", lora: "" }))
+        .model
+    ).toBe("Qubico/flux1-schnell");
+
+    const both = await client.callTool({
+      name: "generate_image",
+      arguments: {
+        prompt: "a fox",
+        lora: "mystic-realism",
+        loras: [{ lora: "ob3d-isometric-3d-room" }],
+      },
+    });
+    expect(textOf(both)).toBe("Use either lora or loras, not both");
+  });
+
+  it("rejects unknown loras", async () => {
+    await expect(
+      client.callTool({
+        name: "generate_image",
+        arguments: { prompt: "a fox", loras: [{ lora: "no-such-lora" }] },
+      })
+    ).rejects.toThrow(/Must be one of mystic-realism/);
+    expect(piapi.requests).toHaveLength(0);
+  });
+
+  it("rejects sizes out of range", async () => {
+    await expect(
+      client.callTool({
+        name: "generate_image",
+        arguments: { prompt: "a fox", width: 2048 },
+      })
+    ).rejects.toThrow();
+    expect(piapi.requests).toHaveLength(0);
+  });
+});
+
+describe("modify_image, derive_image and generate_image_controlnet", () => {
+  it("builds an inpaint request", async () => {
+    expect(
+      await requestBodyOf("modify_image", {
+        prompt: "a hat",
+        referenceImage: "https://example.com/a.png",
+        model: "inpaint",
+      })
+    ).toEqual({
+      model: "Qubico/flux1-dev-advanced",
+      task_type: "fill-inpaint",
+      input: {
+        prompt: "a hat",
+        negative_prompt: NEGATIVE_IMAGE_PROMPT,
+        image: "https://example.com/a.png",
+        steps: 25,
+      },
+    });
+  });
+
+  it("builds an outpaint request with parsed padding", async () => {
+    const body = await requestBodyOf("modify_image", {
+      prompt: "more sky",
+      referenceImage: "https://example.com/a.png",
+      model: "outpaint",
+      paddingTop: "256",
+      paddingLeft: 64,
+    });
+    expect(body.task_type).toBe("fill-outpaint");
+    expect(body.input.custom_settings).toEqual([
+      {
+        setting_type: "outpaint",
+        outpaint_left: 64,
+        outpaint_right: 0,
+        outpaint_top: 256,
+        outpaint_bottom: 0,
+      },
+    ]);
+  });
+
+  it("builds a variation request", async () => {
+    expect(
+      await requestBodyOf("derive_image", {
+        prompt: "in winter",
+        referenceImage: "https://example.com/a.png",
+        steps: 30,
+      })
+    ).toEqual({
+      model: "Qubico/flux1-dev-advanced",
+      task_type: "redux-variation",
+      input: {
+        prompt: "in winter",
+        negative_prompt: NEGATIVE_IMAGE_PROMPT,
+        image: "https://example.com/a.png",
+        width: 1024,
+        height: 1024,
+        steps: 30,
+      },
+    });
+  });
+
+  it("builds a controlnet request without a lora", async () => {
+    expect(
+      await requestBodyOf("generate_image_controlnet", {
+        prompt: "a robot",
+        referenceImage: "https://example.com/pose.png",
+        controlType: "openpose",
+      })
+    ).toEqual({
+      model: "Qubico/flux1-dev-advanced",
+      task_type: "controlnet-lora",
+      input: {
+        prompt: "a robot",
+        negative_prompt: NEGATIVE_IMAGE_PROMPT,
+        width: 1024,
+        height: 1024,
+        steps: 25,
+        lora_settings: [],
+        control_net_settings: [
+          {
+            control_type: "openpose",
+            control_image: "https://example.com/pose.png",
+          },
+        ],
+      },
+    });
+  });
+
+  it("builds a controlnet request with a lora", async () => {
+    const body = await requestBodyOf("generate_image_controlnet", {
+      prompt: "a robot",
+      referenceImage: "https://example.com/depth.png",
+      loras: [{ lora: "remes-abstract-poster-style" }],
+    });
+    expect(body.input.lora_settings).toEqual([
+      { lora_type: "remes-abstract-poster-style" },
+    ]);
+    expect(body.input.control_net_settings[0].control_type).toBe("depth");
+  });
+
+  it("builds a kontext edit request", async () => {
+    expect(
+      await requestBodyOf("edit_image", {
+        image: "https://example.com/jacket.png",
+        instruction: "make the jacket red",
+        aspectRatio: "3:4",
+        seed: 7,
+        model: "max",
+      })
+    ).toEqual({
+      model: "Qubico/flux1-kontext-max",
+      task_type: "img2img",
+      input: {
+        prompt: "make the jacket red",
+        image: "https://example.com/jacket.png",
+        aspect_ratio: "3:4",
+        seed: 7,
+      },
+    });
+  });
+
+  it("combines several controlnets with their strength and range", async () => {
+    const body = await requestBodyOf("generate_image_controlnet", {
+      prompt: "a robot",
+      controlNets: [
+        {
+          controlType: "openpose",
+          image: "https://example.com/pose.png",
+          strength: 0.8,
+        },
+        {
+          controlType: "canny",
+          image: "https://example.com/edges.png",
+          strength: 0.4,
+          start: 0.1,
+          end: 0.6,
+        },
+      ],
+    });
+    expect(body.input.control_net_settings).toEqual([
+      {
+        control_type: "openpose",
+        control_image: "https://example.com/pose.png",
+        control_strength: 0.8,
+      },
+      {
+        control_type: "canny",
+        control_image: "https://example.com/edges.png",
+        control_strength: 0.4,
+        start_percent: 0.1,
+        end_percent: 0.6,
+      },
+    ]);
+
+    const reversed = await client.callTool({
+      name: "generate_image_controlnet",
+      arguments: {
+        prompt: "a robot",
+        controlNets: [
+          {
+            controlType: "depth",
+            image: "https://example.com/depth.png",
+            start: 0.5,
+            end: 0.2,
+          },
+        ],
+      },
+    });
+    expect(textOf(reversed)).toBe(
+      "controlNets[0] must start before it ends, got 0.5 to 0.2"
+    );
+  });
+});
+
+describe("generate_image_gpt4o and generate_image_ideogram", () => {
+  it("builds gpt-4o image requests", async () => {
+    expect(
+      await requestBodyOf("generate_image_gpt4o", { prompt: 'a sign "OPEN"' })
+    ).toEqual({
+      model: "gpt-4o-image",
+      task_type: "txt2img",
+      input: {
+        prompt: 'a sign "OPEN"',
+        size: "auto",
+        background: "auto",
+        quality: "medium",
+        n: 1,
+      },
+    });
+
+    piapi.requests.length = 0;
+    const body = await requestBodyOf("generate_image_gpt4o", {
+      prompt: "put the logo of the second image on the mug",
+      referenceImages: [
+        "https://example.com/mug.png",
+        "https://example.com/logo.png",
+      ],
+      background: "transparent",
+      count: 3,
+    });
+    expect(body.task_type).toBe("img2img");
+    expect(body.input).toMatchObject({
+      image_urls: ["https://example.com/mug.png", "https://example.com/logo.png"],
+      background: "transparent",
+      n: 3,
+    });
+  });
+
+  it("builds ideogram requests", async () => {
+    expect(
+      await requestBodyOf("generate_image_ideogram", {
+        prompt: 'a poster reading "SALE"',
+        styleType: "design",
+        styleReferences: ["https://example.com/style.png"],
+        transparentBackground: true,
+        renderingSpeed: "quality",
+        count: 2,
+      })
+    ).toEqual({
+      model: "ideogram",
+      task_type: "generate-transparent",
+      input: {
+        prompt: 'a poster reading "SALE"',
+        aspect_ratio: "1:1",
+        style_type: "design",
+        style_reference_images: ["https://example.com/style.png"],
+        magic_prompt: "OFF",
+        rendering_speed: "QUALITY",
+        num_images: 2,
+      },
+    });
+
+    const result = await client.callTool({
+      name: "generate_image_ideogram",
+      arguments: {
+        prompt: "a sticker",
+        styleType: "realistic",
+        transparentBackground: true,
+      },
+    });
+    expect(textOf(result)).toBe(
+      "A transparent background is not available with the realistic style"
+    );
+  });
+
+  it("limits the number of images", async () => {
+    await expect(
+      client.callTool({
+        name: "generate_image_gpt4o",
+        arguments: { prompt: "a logo", count: 5 },
+      })
+    ).rejects.toThrow();
+  });
+});
+
+describe("video tools", () => {
+  it("builds a hunyuan txt2video request", async () => {
+    expect(
+      await requestBodyOf("generate_video_hunyuan", {
+        prompt: "waves",
+        model: "fastHunyuan",
+        aspectRatio: "9:16",
+      })
+    ).toEqual({
+      model: "Qubico/hunyuan",
+      task_type: "fast-txt2video",
+      input: {
+        prompt: "waves",
+        negative_prompt: NEGATIVE_VIDEO_PROMPT,
+        aspect_ratio: "9:16",
+      },
+    });
+  });
+
+  it("falls back to hunyuanConcat for a reference image", async () => {
+    const body = await requestBodyOf("generate_video_hunyuan", {
+      prompt: "waves",
+      referenceImage: "https://example.com/sea.png",
+    });
+    expect(body.task_type).toBe("img2video-concat");
+    expect(body.input.image).toBe("https://example.com/sea.png");
+  });
+
+  it("keeps hunyuanReplace for a reference image", async () => {
+    const body = await requestBodyOf("generate_video_hunyuan", {
+      prompt: "waves",
+      model: "hunyuanReplace",
+      referenceImage: "https://example.com/sea.png",
+    });
+    expect(body.task_type).toBe("img2video-replace");
+  });
+
+  it("builds a skyreels request", async () => {
+    expect(
+      await requestBodyOf("generate_video_skyreels", {
+        prompt: "walking",
+        referenceImage: "https://example.com/a.png",
+      })
+    ).toEqual({
+      model: "Qubico/skyreels",
+      task_type: "img2video",
+      input: {
+        prompt: "walking",
+        negative_prompt: NEGATIVE_VIDEO_PROMPT,
+        aspect_ratio: "16:9",
+        image: "https://example.com/a.png",
+      },
+    });
+  });
+
+  it("builds wan txt2video requests for both models", async () => {
+    const body = await requestBodyOf("generate_video_wan", { prompt: "rain" });
+    expect(body).toEqual({
+      model: "Qubico/wanx",
+      task_type: "txt2video-1.3b",
+      input: {
+        prompt: "rain",
+        negative_prompt: NEGATIVE_VIDEO_PROMPT,
+        aspect_ratio: "16:9",
+      },
+    });
+
+    piapi.requests.length = 0;
+    const large = await requestBodyOf("generate_video_wan", {
+      prompt: "rain",
+      model: "wan14b",
+    });
+    expect(large.task_type).toBe("txt2video-14b");
+  });
+
+  it("promotes wan to 14b for a reference image", async () => {
+    const body = await requestBodyOf("generate_video_wan", {
+      prompt: "rain",
+      model: "wan1_3b",
+      referenceImage: "https://example.com/a.png",
+    });
+    expect(body.task_type).toBe("img2video-14b");
+    expect(body.input.image).toBe("https://example.com/a.png");
+  });
+
+  it("builds kling video and effect requests", async () => {
+    expect(
+      await requestBodyOf("generate_video_kling", {
+        prompt: "a dancer",
+        duration: "10s",
+        referenceImage: "https://example.com/a.png",
+      })
+    ).toEqual({
+      model: "kling",
+      task_type: "video_generation",
+      input: {
+        prompt: "a dancer",
+        negative_prompt: NEGATIVE_VIDEO_PROMPT,
+        aspect_ratio: "16:9",
+        image_url: "https://example.com/a.png",
+        duration: 10,
+      },
+    });
+
+    piapi.requests.length = 0;
+    expect(
+      await requestBodyOf("generate_video_effect_kling", {
+        image: "https://example.com/a.png",
+        effectName: "expansion",
+      })
+    ).toEqual({
+      model: "kling",
+      task_type: "effects",
+      input: { image_url: "https://example.com/a.png", effect: "expansion" },
+    });
+  });
+
+  it("builds kling requests with an end frame, motion brush or camera", async () => {
+    expect(
+      await requestBodyOf("generate_video_kling", {
+        prompt: "a dancer",
+        referenceImage: "https://example.com/a.png",
+        imageTail: "https://example.com/b.png",
+        version: "1.6",
+        mode: "pro",
+        cfgScale: 0.7,
+      })
+    ).toMatchObject({
+      input: {
+        image_url: "https://example.com/a.png",
+        image_tail_url: "https://example.com/b.png",
+        version: "1.6",
+        mode: "pro",
+        cfg_scale: 0.7,
+      },
+    });
+
+    piapi.requests.length = 0;
+    expect(
+      await requestBodyOf("generate_video_kling", {
+        prompt: "a kite",
+        referenceImage: "https://example.com/a.png",
+        staticMask: "https://example.com/still.png",
+        dynamicMasks: [
+          {
+            mask: "https://example.com/kite.png",
+            trajectory: [
+              { x: 10, y: 20 },
+              { x: 300, y: 400 },
+            ],
+          },
+        ],
+      })
+    ).toMatchObject({
+      input: {
+        static_mask_url: "https://example.com/still.png",
+        dynamic_masks: [
+          {
+            mask_url: "https://example.com/kite.png",
+            trajectories: [
+              { x: 10, y: 20 },
+              { x: 300, y: 400 },
+            ],
+          },
+        ],
+      },
+    });
+
+    piapi.requests.length = 0;
+    const cameraControl = { type: "simple", config: { zoom: 5 } };
+    expect(
+      await requestBodyOf("generate_video_kling", {
+        prompt: "a city",
+        cameraControl,
+      })
+    ).toMatchObject({ input: { camera_control: cameraControl } });
+
+    piapi.requests.length = 0;
+    expect(
+      await requestBodyOf("extend_video_kling", { originTaskId: "kling-1" })
+    ).toEqual({
+      model: "kling",
+      task_type: "extend_video",
+      input: { origin_task_id: "kling-1" },
+    });
+  });
+
+  it("builds kling effect, lip sync and try-on requests", async () => {
+    expect(
+      await requestBodyOf("generate_video_effect_kling", {
+        image: "https://example.com/a.png",
+        secondImage: "https://example.com/b.png",
+        effectName: "hug",
+      })
+    ).toMatchObject({
+      input: {
+        image_urls: ["https://example.com/a.png", "https://example.com/b.png"],
+        effect: "hug",
+      },
+    });
+
+    piapi.requests.length = 0;
+    expect(
+      await requestBodyOf("lip_sync_kling", {
+        originTaskId: "kling-1",
+        audio: "https://example.com/speech.wav",
+      })
+    ).toEqual({
+      model: "kling",
+      task_type: "lip_sync",
+      input: {
+        origin_task_id: "kling-1",
+        local_dubbing_url: "https://example.com/speech.wav",
+      },
+    });
+
+    piapi.requests.length = 0;
+    expect(
+      await requestBodyOf("lip_sync_kling", {
+        originTaskId: "kling-1",
+        text: "Hello there",
+        voiceId: "uk_man2",
+        voiceSpeed: 1.2,
+      })
+    ).toMatchObject({
+      input: { tts_text: "Hello there", tts_timbre: "uk_man2", tts_speed: 1.2 },
+    });
+
+    piapi.requests.length = 0;
+    expect(
+      await requestBodyOf("virtual_try_on_kling", {
+        modelImage: "https://example.com/model.png",
+        upper: "https://example.com/shirt.png",
+        lower: "https://example.com/jeans.png",
+      })
+    ).toEqual({
+      model: "kling",
+      task_type: "ai_try_on",
+      input: {
+        model_input: "https://example.com/model.png",
+        upper_input: "https://example.com/shirt.png",
+        lower_input: "https://example.com/jeans.png",
+        batch_size: 1,
+      },
+    });
+  });
+
+  it("checks the inputs of kling effects and lip sync", async () => {
+    const hug = await client.callTool({
+      name: "generate_video_effect_kling",
+      arguments: { image: "https://example.com/a.png", effectName: "hug" },
+    });
+    expect(textOf(hug)).toBe(
+      "The 'hug' effect animates two people, secondImage is required"
+    );
+
+    const lipSync = await client.callTool({
+      name: "lip_sync_kling",
+      arguments: {
+        originTaskId: "kling-1",
+        audio: "https://example.com/speech.wav",
+        text: "Hello",
+      },
+    });
+    expect(textOf(lipSync)).toBe(
+      "Either audio or text is required, but not both"
+    );
+    expect(piapi.requests).toHaveLength(0);
+  });
+
+  it("rejects conflicting kling frame controls", async () => {
+    const tail = await client.callTool({
+      name: "generate_video_kling",
+      arguments: { prompt: "a dancer", imageTail: "https://example.com/b.png" },
+    });
+    expect(textOf(tail)).toBe(
+      "imageTail, staticMask and dynamicMasks require referenceImage"
+    );
+
+    const both = await client.callTool({
+      name: "generate_video_kling",
+      arguments: {
+        prompt: "a dancer",
+        referenceImage: "https://example.com/a.png",
+        imageTail: "https://example.com/b.png",
+        cameraControl: { type: "forward_up" },
+      },
+    });
+    expect(textOf(both)).toBe(
+      "Only one of imageTail, the motion brush masks and cameraControl can be used at a time"
+    );
+
+    const camera = await client.callTool({
+      name: "generate_video_kling",
+      arguments: {
+        prompt: "a city",
+        cameraControl: { type: "simple", config: { zoom: 5, pan: 2 } },
+      },
+    });
+    expect(textOf(camera)).toBe(
+      "A 'simple' camera needs exactly one non-zero value in cameraControl.config"
+    );
+    expect(piapi.requests).toHaveLength(0);
+  });
+
+  it("builds luma requests with and without a key frame", async () => {
+    expect(
+      await requestBodyOf("generate_video_luma", { prompt: "a city" })
+    ).toEqual({
+      model: "luma",
+      task_type: "video_generation",
+      input: {
+        prompt: "a city",
+        duration: 5,
+        key_frames: { frame0: { type: "" } },
+      },
+    });
+
+    piapi.requests.length = 0;
+    const body = await requestBodyOf("generate_video_luma", {
+      prompt: "a city",
+      keyFrame: "https://example.com/a.png",
+      aspectRatio: "9:16",
+    });
+    expect(body.input.aspect_ratio).toBe("9:16");
+    expect(body.input.key_frames).toEqual({
+      frame0: { type: "image", url: "https://example.com/a.png" },
+    });
+  });
+
+  it("builds luma requests between two frames", async () => {
+    const body = await requestBodyOf("generate_video_luma", {
+      prompt: "a city",
+      keyFrame: "https://example.com/a.png",
+      endFrame: "https://example.com/b.png",
+      model: "ray-v2",
+    });
+    expect(body.input).toMatchObject({
+      key_frames: {
+        frame0: { type: "image", url: "https://example.com/a.png" },
+        frame1: { type: "image", url: "https://example.com/b.png" },
+      },
+      model_name: "ray-v2",
+    });
+
+    const loop = await client.callTool({
+      name: "generate_video_luma",
+      arguments: {
+        prompt: "a city",
+        endFrame: "https://example.com/b.png",
+        loop: true,
+      },
+    });
+    expect(textOf(loop)).toBe(
+      "loop is not compatible with endFrame and endFrameTaskId"
+    );
+  });
+
+  it("builds luma requests between earlier generations", async () => {
+    const body = await requestBodyOf("generate_video_luma", {
+      prompt: "a city",
+      keyFrameTaskId: "luma-1",
+      endFrameTaskId: "luma-2",
+    });
+    expect(body.input.key_frames).toEqual({
+      frame0: { type: "generation", id: "luma-1" },
+      frame1: { type: "generation", id: "luma-2" },
+    });
+
+    const both = await client.callTool({
+      name: "generate_video_luma",
+      arguments: {
+        prompt: "a city",
+        keyFrame: "https://example.com/a.png",
+        keyFrameTaskId: "luma-1",
+      },
+    });
+    expect(textOf(both)).toBe(
+      "keyFrame and keyFrameTaskId can not be used together"
+    );
+  });
+
+  it("builds luma extend and reverse extend requests", async () => {
+    expect(
+      await requestBodyOf("extend_video_luma", {
+        taskId: "luma-1",
+        prompt: "the camera keeps flying",
+        loop: true,
+      })
+    ).toEqual({
+      model: "luma",
+      task_type: "extend_video",
+      input: {
+        prompt: "the camera keeps flying",
+        key_frames: { frame0: { type: "generation", id: "luma-1" } },
+        loop: true,
+      },
+    });
+
+    piapi.requests.length = 0;
+    const reverse = await requestBodyOf("extend_video_luma", {
+      taskId: "luma-1",
+      prompt: "a city at dawn",
+      reverse: true,
+      frameTaskId: "luma-0",
+    });
+    expect(reverse.input.key_frames).toEqual({
+      frame0: { type: "generation", id: "luma-0" },
+      frame1: { type: "generation", id: "luma-1" },
+    });
+  });
+
+  it("builds hailuo requests", async () => {
+    expect(
+      await requestBodyOf("generate_video_hailuo", { prompt: "a bird" })
+    ).toEqual({
+      model: "t2v-01",
+      task_type: "video_generation",
+      input: { prompt: "a bird", expand_prompt: false },
+    });
+
+    piapi.requests.length = 0;
+    const body = await requestBodyOf("generate_video_hailuo", {
+      prompt: "a bird",
+      model: "i2v-01-live",
+      imageUrl: "https://example.com/a.png",
+      expandPrompt: true,
+    });
+    expect(body.model).toBe("i2v-01-live");
+    expect(body.input).toEqual({
+      prompt: "a bird",
+      image_url: "https://example.com/a.png",
+      expand_prompt: true,
+    });
+  });
+
+  it("requires an image for hailuo image-to-video models", async () => {
+    const result = await client.callTool({
+      name: "generate_video_hailuo",
+      arguments: { prompt: "a bird", model: "s2v-01" },
+    });
+    expect(result.isError).toBe(true);
+    expect(textOf(result)).toBe("Image URL is required for s2v-01 model");
+    expect(piapi.requests).toHaveLength(0);
+  });
+
+  it("builds veo 3 requests", async () => {
+    expect(
+      await requestBodyOf("generate_video_veo3", { prompt: "a storm" })
+    ).toEqual({
+      model: "veo3",
+      task_type: "veo3-video",
+      input: {
+        prompt: "a storm",
+        aspect_ratio: "16:9",
+        resolution: "720p",
+        generate_audio: true,
+      },
+    });
+
+    piapi.requests.length = 0;
+    const body = await requestBodyOf("generate_video_veo3", {
+      prompt: "a storm",
+      image: "https://example.com/a.png",
+      resolution: "1080p",
+      generateAudio: false,
+      seed: 7,
+      model: "veo3Fast",
+    });
+    expect(body.task_type).toBe("veo3-video-fast");
+    expect(body.input).toMatchObject({
+      image_url: "https://example.com/a.png",
+      resolution: "1080p",
+      generate_audio: false,
+      seed: 7,
+    });
+  });
+
+  it("only generates veo 3 videos in 1080p in 16:9", async () => {
+    const result = await client.callTool({
+      name: "generate_video_veo3",
+      arguments: { prompt: "a storm", aspectRatio: "9:16", resolution: "1080p" },
+    });
+    expect(textOf(result)).toBe("1080p is only available in 16:9");
+    expect(piapi.requests).toHaveLength(0);
+  });
+
+  it("builds seedance requests", async () => {
+    expect(
+      await requestBodyOf("generate_video_seedance", {
+        prompt: "a dancer",
+        duration: "10s",
+        aspectRatio: "9:16",
+      })
+    ).toEqual({
+      model: "seedance",
+      task_type: "seedance-1-pro",
+      input: {
+        prompt: "a dancer",
+        duration: 10,
+        aspect_ratio: "9:16",
+        resolution: "720p",
+      },
+    });
+
+    piapi.requests.length = 0;
+    const body = await requestBodyOf("generate_video_seedance", {
+      prompt: "a dancer",
+      image: "https://example.com/a.png",
+      model: "lite",
+    });
+    expect(body.task_type).toBe("seedance-1-lite");
+    expect(body.input).toMatchObject({
+      image_url: "https://example.com/a.png",
+      duration: 5,
+    });
+
+    const result = await client.callTool({
+      name: "generate_video_seedance",
+      arguments: {
+        prompt: "a dancer",
+        image: "https://example.com/a.png",
+        aspectRatio: "1:1",
+      },
+    });
+    expect(textOf(result)).toBe(
+      "aspectRatio is only available for text-to-video, image-to-video follows the image"
+    );
+  });
+
+  it("builds framepack requests", async () => {
+    expect(
+      await requestBodyOf("generate_video_framepack", {
+        prompt: "a flower blooms",
+        startImage: "https://example.com/bud.png",
+        endImage: "https://example.com/flower.png",
+        duration: 10,
+      })
+    ).toEqual({
+      model: "Qubico/framepack",
+      task_type: "img2video",
+      input: {
+        prompt: "a flower blooms",
+        start_image: "https://example.com/bud.png",
+        end_image: "https://example.com/flower.png",
+        duration: 10,
+      },
+    });
+  });
+});
+
+describe("audio, music and 3d tools", () => {
+  it("builds mmaudio and tts requests", async () => {
+    expect(
+      await requestBodyOf("generate_music_for_video", {
+        prompt: "calm piano",
+        video: "https://example.com/a.mp4",
+      })
+    ).toEqual({
+      model: "Qubico/mmaudio",
+      task_type: "video2audio",
+      input: {
+        prompt: "calm piano",
+        negative_prompt: "chaos, bad music",
+        video: "https://example.com/a.mp4",
+      },
+    });
+
+    piapi.requests.length = 0;
+    expect(
+      await requestBodyOf("tts_zero_shot", {
+        genText: "Hello there",
+        refAudio: "https://example.com/voice.mp3",
+      })
+    ).toEqual({
+      model: "Qubico/tts",
+      task_type: "zero-shot",
+      input: {
+        gen_text: "Hello there",
+        ref_audio: "https://example.com/voice.mp3",
+      },
+    });
+  });
+
+  it("builds an instrumental suno request", async () => {
+    expect(
+      await requestBodyOf("generate_music_suno", {
+        prompt: "lofi beats",
+        makeInstrumental: true,
+      })
+    ).toEqual({
+      model: "music-s",
+      task_type: "generate_music",
+      input: { prompt: "lofi beats", make_instrumental: true },
+    });
+  });
+
+  it("builds a custom suno request when title or tags are given", async () => {
+    expect(
+      await requestBodyOf("generate_music_suno", {
+        prompt: "[Verse]\nHello",
+        title: "Hello",
+        tags: "pop",
+      })
+    ).toEqual({
+      model: "music-s",
+      task_type: "generate_music_custom",
+      input: { prompt: "[Verse]\nHello", title: "Hello", tags: "pop" },
+    });
+  });
+
+  it("rejects instrumental custom suno requests", async () => {
+    const result = await client.callTool({
+      name: "generate_music_suno",
+      arguments: { prompt: "song", negativeTags: "metal", makeInstrumental: true },
+    });
+    expect(result.isError).toBe(true);
+    expect(textOf(result)).toContain("makeInstrumental is not compatible");
+    expect(piapi.requests).toHaveLength(0);
+  });
+
+  it("builds suno extend and concat requests", async () => {
+    expect(
+      await requestBodyOf("extend_music_suno", {
+        clipId: "clip-1",
+        continueAt: 95.5,
+        prompt: "[Bridge]\nHello again",
+        tags: "pop",
+      })
+    ).toEqual({
+      model: "music-s",
+      task_type: "extend_music",
+      input: {
+        continue_clip_id: "clip-1",
+        continue_at: 95.5,
+        prompt: "[Bridge]\nHello again",
+        tags: "pop",
+      },
+    });
+
+    piapi.requests.length = 0;
+    expect(
+      await requestBodyOf("concat_music_suno", { clipId: "clip-2" })
+    ).toEqual({
+      model: "music-s",
+      task_type: "concat_music",
+      input: { clip_id: "clip-2" },
+    });
+  });
+
+  it("builds udio requests with lyrics and continuations", async () => {
+    expect(
+      await requestBodyOf("generate_music_udio", {
+        prompt: "synthwave",
+        lyricsType: "user",
+        lyrics: "[Verse]\nNeon",
+        seed: 42,
+        continueSongId: "song-1",
+        continueAt: 30,
+      })
+    ).toEqual({
+      model: "music-u",
+      task_type: "generate_music",
+      input: {
+        gpt_description_prompt: "synthwave",
+        lyrics_type: "user",
+        lyrics: "[Verse]\nNeon",
+        seed: 42,
+        continue_song_id: "song-1",
+        continue_at: 30,
+      },
+    });
+  });
+
+  it("rejects udio lyrics without the user lyrics type", async () => {
+    const result = await client.callTool({
+      name: "generate_music_udio",
+      arguments: { prompt: "synthwave", lyrics: "[Verse]\nNeon" },
+    });
+    expect(result.isError).toBe(true);
+    expect(textOf(result)).toContain(
+      "lyrics is only used when lyricsType is 'user'"
+    );
+    expect(piapi.requests).toHaveLength(0);
+  });
+
+  it("builds midjourney and trellis requests", async () => {
+    expect(
+      await requestBodyOf("midjourney_imagine", {
+        prompt: "a castle",
+        aspectRatio: "2:3",
+      })
+    ).toEqual({
+      model: "midjourney",
+      task_type: "imagine",
+      input: { prompt: "a castle", aspect_ratio: "2:3", process_mode: "fast" },
+    });
+
+    piapi.requests.length = 0;
+    expect(
+      await requestBodyOf("generate_3d_model", {
+        image: "https://example.com/a.png",
+      })
+    ).toEqual({
+      model: "Qubico/trellis",
+      task_type: "image-to-3d",
+      input: { image: "https://example.com/a.png" },
+    });
+  });
+});
+
+describe("midjourney actions", () => {
+  it("upscales an image of the parent grid", async () => {
+    expect(
+      await requestBodyOf("midjourney_upscale", {
+        parentTaskId: "mj-1",
+        index: 3,
+      })
+    ).toEqual({
+      model: "midjourney",
+      task_type: "upscale",
+      input: { origin_task_id: "mj-1", index: "3", process_mode: "fast" },
+    });
+  });
+
+  it("varies a grid image or an upscaled image", async () => {
+    expect(
+      await requestBodyOf("midjourney_variation", {
+        parentTaskId: "mj-1",
+        index: 2,
+        prompt: "a blue fox",
+      })
+    ).toMatchObject({
+      task_type: "variation",
+      input: { origin_task_id: "mj-1", index: "2", prompt: "a blue fox" },
+    });
+
+    piapi.requests.length = 0;
+    expect(
+      await requestBodyOf("midjourney_variation", {
+        parentTaskId: "mj-2",
+        strength: "subtle",
+      })
+    ).toMatchObject({
+      input: { origin_task_id: "mj-2", index: "low_variation" },
+    });
+  });
+
+  it("requires either an index or a strength to vary", async () => {
+    for (const args of [
+      { parentTaskId: "mj-1" },
+      { parentTaskId: "mj-1", index: 1, strength: "strong" },
+    ]) {
+      const result = await client.callTool({
+        name: "midjourney_variation",
+        arguments: args,
+      });
+      expect(textOf(result)).toBe(
+        "Either index, to vary an image of a grid, or strength, to vary an upscaled image, is required"
+      );
+    }
+  });
+
+  it("builds reroll, pan and zoom requests", async () => {
+    expect(
+      await requestBodyOf("midjourney_reroll", { parentTaskId: "mj-1" })
+    ).toEqual({
+      model: "midjourney",
+      task_type: "reroll",
+      input: { origin_task_id: "mj-1", process_mode: "fast" },
+    });
+
+    piapi.requests.length = 0;
+    expect(
+      await requestBodyOf("midjourney_pan", {
+        parentTaskId: "mj-2",
+        direction: "left",
+      })
+    ).toMatchObject({
+      task_type: "pan",
+      input: { origin_task_id: "mj-2", direction: "left" },
+    });
+
+    piapi.requests.length = 0;
+    expect(
+      await requestBodyOf("midjourney_zoom", {
+        parentTaskId: "mj-2",
+        zoom: "square",
+      })
+    ).toMatchObject({
+      task_type: "outpaint",
+      input: { origin_task_id: "mj-2", zoom_ratio: "1" },
+    });
+  });
+
+  it("sends the inpaint mask inline", async () => {
+    const mask = Buffer.from("mask-png");
+    expect(
+      await requestBodyOf("midjourney_inpaint", {
+        parentTaskId: "mj-2",
+        mask: `data:image/png;base64,${mask.toString("base64")}`,
+        prompt: "a hat",
+      })
+    ).toEqual({
+      model: "midjourney",
+      task_type: "inpaint",
+      input: {
+        origin_task_id: "mj-2",
+        mask: mask.toString("base64"),
+        prompt: "a hat",
+        process_mode: "fast",
+      },
+    });
+  });
+
+  it("runs follow-up actions in the given mode", async () => {
+    expect(
+      await requestBodyOf("midjourney_upscale", {
+        parentTaskId: "mj-1",
+        index: 1,
+        processMode: "relax",
+      })
+    ).toMatchObject({ input: { process_mode: "relax" } });
+
+    piapi.requests.length = 0;
+    expect(
+      await requestBodyOf("midjourney_zoom", {
+        parentTaskId: "mj-2",
+        processMode: "relax",
+      })
+    ).toMatchObject({ input: { process_mode: "relax" } });
+  });
+
+  it("builds describe and blend requests", async () => {
+    expect(
+      await requestBodyOf("midjourney_describe", {
+        image: "https://example.com/fox.png",
+      })
+    ).toEqual({
+      model: "midjourney",
+      task_type: "describe",
+      input: { image_url: "https://example.com/fox.png", process_mode: "fast" },
+    });
+
+    piapi.requests.length = 0;
+    expect(
+      await requestBodyOf("midjourney_blend", {
+        images: ["https://example.com/1.png", "https://example.com/2.png"],
+      })
+    ).toEqual({
+      model: "midjourney",
+      task_type: "blend",
+      input: {
+        image_urls: ["https://example.com/1.png", "https://example.com/2.png"],
+        dimension: "square",
+        process_mode: "fast",
+      },
+    });
+  });
+
+  it("returns the prompts of a describe task", async () => {
+    piapi.setTask({
+      output: { description: "1️⃣ a red fox --ar 3:2\n\n2️⃣ a fox portrait" },
+    });
+    const result = await client.callTool({
+      name: "midjourney_describe",
+      arguments: { image: "https://example.com/fox.png" },
+    });
+    expect(textOf(result)).toContain(
+      "Prompts:\n1. a red fox --ar 3:2\n2. a fox portrait"
+    );
+    expect(result.structuredContent).toMatchObject({
+      task_type: "describe",
+      texts: ["a red fox --ar 3:2", "a fox portrait"],
+    });
+  });
+
+  it("compiles the prompt parameters into flags", async () => {
+    expect(
+      await requestBodyOf("midjourney_imagine", {
+        prompt: " a castle ",
+        version: "niji 6",
+        stylize: 250,
+        quality: 0.5,
+        raw: true,
+        exclude: ["people", "text"],
+        characterReferences: ["https://example.com/hero.png"],
+        characterWeight: 50,
+        processMode: "turbo",
+      })
+    ).toEqual({
+      model: "midjourney",
+      task_type: "imagine",
+      input: {
+        prompt:
+          "a castle --niji 6 --stylize 250 --quality 0.5 --style raw --no people, text --cref https://example.com/hero.png --cw 50",
+        process_mode: "turbo",
+      },
+    });
+  });
+
+  it("rejects conflicting flags in the prompt", async () => {
+    const conflict = await client.callTool({
+      name: "midjourney_imagine",
+      arguments: { prompt: "a castle --ar 16:9", aspectRatio: "2:3" },
+    });
+    expect(textOf(conflict)).toBe(
+      "The prompt sets --ar, which conflicts with the aspectRatio parameter, remove one of them"
+    );
+
+    const repeated = await client.callTool({
+      name: "midjourney_imagine",
+      arguments: { prompt: "a castle --v 6 --niji 6" },
+    });
+    expect(textOf(repeated)).toBe(
+      "The prompt sets --v and --niji, which conflict with each other"
+    );
+
+    const weight = await client.callTool({
+      name: "midjourney_imagine",
+      arguments: { prompt: "a castle", styleWeight: 100 },
+    });
+    expect(textOf(weight)).toBe("styleWeight requires styleReferences");
+    expect(piapi.requests).toHaveLength(0);
+  });
+});
+
+describe("waiting for results", () => {
+  it("formats a completed flux task", async () => {
+    piapi.setTask({ output: { image_url: "https://img.example.com/1.png" } });
+    const result = await client.callTool({
+      name: "generate_image",
+      arguments: { prompt: "a fox" },
+    });
+    expect(textOf(result)).toBe(
+      "TaskId: task-1\nImage generated successfully!\nUsage: 100 tokens\nImage urls:\nhttps://img.example.com/1.png"
+    );
+    expect(result.structuredContent).toEqual({
+      taskId: "task-1",
+      model: "Qubico/flux1-schnell",
+      task_type: "txt2img",
+      status: "completed",
+      usage: 100,
+      assets: [{ kind: "image", url: "https://img.example.com/1.png" }],
+    });
+  });
+
+  it("returns the roles and resolution of luma assets", async () => {
+    const resolution = { width: 1360, height: 752 };
+    piapi.setTask({
+      output: {
+        video_raw: { url: "https://example.com/v.mp4", ...resolution },
+        last_frame: { url: "https://example.com/f.png", ...resolution },
+      },
+    });
+    const result = await client.callTool({
+      name: "generate_video_luma",
+      arguments: { prompt: "a bird" },
+    });
+    expect(textOf(result)).toContain(
+      "Last frame url:\nhttps://example.com/f.png\nLast frame resolution: 1360x752\nTo continue the video, use this TaskId with extend_video_luma"
+    );
+    expect(result.structuredContent).toMatchObject({
+      model: "luma",
+      assets: [
+        { kind: "video", url: "https://example.com/v.mp4", ...resolution },
+        {
+          kind: "image",
+          url: "https://example.com/f.png",
+          ...resolution,
+          role: "last_frame",
+        },
+      ],
+    });
+  });
+
+  it("formats a completed hailuo task", async () => {
+    piapi.setTask({ output: { video_url: "https://example.com/v.mp4" } });
+    const result = await client.callTool({
+      name: "generate_video_hailuo",
+      arguments: { prompt: "a bird" },
+    });
+    expect(textOf(result)).toContain("Video url:\nhttps://example.com/v.mp4");
+  });
+
+  it("formats a completed veo 3 task", async () => {
+    piapi.setTask({
+      output: {
+        video: {
+          url: "https://example.com/v.mp4",
+          width: 1280,
+          height: 720,
+          duration: 8,
+          has_audio: true,
+        },
+      },
+    });
+    const result = await client.callTool({
+      name: "generate_video_veo3",
+      arguments: { prompt: "a storm" },
+    });
+    expect(textOf(result)).toBe(
+      "TaskId: task-1\nVideo generated successfully!\nUsage: 100 tokens\nVideo url:\nhttps://example.com/v.mp4\nAudio: yes"
+    );
+    expect(result.structuredContent).toMatchObject({
+      assets: [
+        {
+          kind: "video",
+          url: "https://example.com/v.mp4",
+          width: 1280,
+          height: 720,
+          duration: 8,
+        },
+      ],
+    });
+  });
+
+  it("formats a completed seedance task", async () => {
+    piapi.setTask({ output: { video: "https://example.com/v.mp4" } });
+    const result = await client.callTool({
+      name: "generate_video_seedance",
+      arguments: { prompt: "a dancer" },
+    });
+    expect(textOf(result)).toContain("Video url:\nhttps://example.com/v.mp4");
+  });
+
+  it("formats a completed framepack task", async () => {
+    piapi.setTask({
+      output: { video_url: "https://example.com/v.mp4", duration: 10 },
+    });
+    const result = await client.callTool({
+      name: "generate_video_framepack",
+      arguments: {
+        prompt: "a flower blooms",
+        startImage: "https://example.com/bud.png",
+        duration: 10,
+      },
+    });
+    expect(textOf(result)).toContain("Video url:\nhttps://example.com/v.mp4");
+    expect(result.structuredContent).toMatchObject({
+      assets: [{ kind: "video", url: "https://example.com/v.mp4", duration: 10 }],
+    });
+  });
+
+  it("formats images with their size and background", async () => {
+    piapi.setTask({
+      output: {
+        images: [
+          {
+            url: "https://example.com/1.png",
+            width: 1024,
+            height: 1536,
+            background: "transparent",
+          },
+          { url: "https://example.com/2.png", width: 1024, height: 1536 },
+        ],
+      },
+    });
+    const result = await client.callTool({
+      name: "generate_image_gpt4o",
+      arguments: { prompt: "a logo", background: "transparent", count: 2 },
+    });
+    expect(textOf(result)).toBe(
+      "TaskId: task-1\nImage generated successfully!\nUsage: 100 tokens\nImage urls:\nhttps://example.com/1.png (1024x1536, transparent background)\nhttps://example.com/2.png (1024x1536)"
+    );
+    expect(result.structuredContent).toMatchObject({
+      assets: [
+        {
+          kind: "image",
+          url: "https://example.com/1.png",
+          width: 1024,
+          height: 1536,
+          transparent: true,
+        },
+        {
+          kind: "image",
+          url: "https://example.com/2.png",
+          width: 1024,
+          height: 1536,
+        },
+      ],
+    });
+  });
+
+  it("lists a flux image once when its output repeats it", async () => {
+    piapi.setTask({
+      output: {
+        image_url: "https://example.com/1.png",
+        image_urls: ["https://example.com/1.png"],
+      },
+    });
+    const result = await client.callTool({
+      name: "generate_image",
+      arguments: { prompt: "a fox" },
+    });
+    expect(textOf(result)).toContain("Image urls:\nhttps://example.com/1.png");
+    expect(result.structuredContent).toMatchObject({
+      assets: [{ kind: "image", url: "https://example.com/1.png" }],
+    });
+    expect(
+      (result.structuredContent as { assets: unknown[] }).assets
+    ).toHaveLength(1);
+  });
+
+  it("formats an edited image", async () => {
+    piapi.setTask({ output: { image_url: "https://example.com/red.png" } });
+    const result = await client.callTool({
+      name: "edit_image",
+      arguments: {
+        image: "https://example.com/jacket.png",
+        instruction: "make the jacket red",
+      },
+    });
+    expect(textOf(result)).toBe(
+      "TaskId: task-1\nImage generated successfully!\nUsage: 100 tokens\nImage urls:\nhttps://example.com/red.png"
+    );
+  });
+
+  it("formats suno clips from a plain JSON object", async () => {
+    piapi.setTask({
+      output: {
+        clips: {
+          "clip-1": {
+            audio_url: "https://example.com/1.mp3",
+            image_url: "https://example.com/1.png",
+          },
+          "clip-2": {
+            audio_url: "https://example.com/2.mp3",
+            image_url: "https://example.com/2.png",
+          },
+        },
+      },
+    });
+    const result = await client.callTool({
+      name: "generate_music_suno",
+      arguments: { prompt: "lofi beats" },
+    });
+    expect(result.isError).toBeFalsy();
+    expect(textOf(result)).toContain(
+      "Audio url: https://example.com/2.mp3\nImage url: https://example.com/2.png"
+    );
+  });
+
+  it("returns the id, duration and lyrics of suno clips", async () => {
+    piapi.setTask({
+      output: {
+        clips: {
+          "clip-1": {
+            id: "clip-1",
+            title: "Hello",
+            audio_url: "https://example.com/1.mp3",
+            image_url: "https://example.com/1.png",
+            metadata: { tags: "pop", prompt: "[Verse]\nHello", duration: 95.5 },
+          },
+        },
+      },
+    });
+    const result = await client.callTool({
+      name: "generate_music_suno",
+      arguments: { prompt: "[Verse]\nHello", title: "Hello", tags: "pop" },
+    });
+    expect(textOf(result)).toContain(
+      "Clip id: clip-1\nTitle: Hello\nDuration: 95.5s\nTags: pop\nAudio url: https://example.com/1.mp3\nImage url: https://example.com/1.png\nLyrics:\n[Verse]\nHello"
+    );
+    expect(result.structuredContent).toMatchObject({
+      assets: [
+        {
+          kind: "audio",
+          url: "https://example.com/1.mp3",
+          id: "clip-1",
+          title: "Hello",
+          duration: 95.5,
+          tags: "pop",
+          lyrics: "[Verse]\nHello",
+        },
+        { kind: "image", id: "clip-1", role: "cover" },
+      ],
+    });
+  });
+
+  it("returns the songs of a udio task", async () => {
+    piapi.setTask({
+      output: {
+        songs: [
+          {
+            id: "song-1",
+            title: "Neon",
+            song_path: "https://example.com/1.mp3",
+            image_path: "https://example.com/1.png",
+            lyrics: "[Verse]\nNeon",
+            tags: ["synthwave", "retro"],
+            duration: 130.1,
+          },
+          { id: "song-2", song_path: "", image_path: null },
+        ],
+      },
+    });
+    const result = await client.callTool({
+      name: "generate_music_udio",
+      arguments: { prompt: "synthwave" },
+    });
+    expect(textOf(result)).toContain(
+      "Song id: song-1\nTitle: Neon\nDuration: 130.1s\nTags: synthwave, retro\nAudio url: https://example.com/1.mp3\nImage url: https://example.com/1.png\nLyrics:\n[Verse]\nNeon"
+    );
+    expect(result.structuredContent).toMatchObject({
+      model: "music-u",
+      assets: [
+        {
+          kind: "audio",
+          url: "https://example.com/1.mp3",
+          id: "song-1",
+          duration: 130.1,
+          tags: "synthwave, retro",
+        },
+        { kind: "image", id: "song-1", role: "cover" },
+      ],
+    });
+  });
+
+  it("returns the images of a kling try-on", async () => {
+    piapi.setTask({
+      output: {
+        works: [
+          {
+            image: {
+              resource: "https://example.com/watermark.png",
+              resource_without_watermark: "https://example.com/1.png",
+              width: 768,
+              height: 1024,
+            },
+          },
+        ],
+      },
+    });
+    const result = await client.callTool({
+      name: "virtual_try_on_kling",
+      arguments: {
+        modelImage: "https://example.com/model.png",
+        dress: "https://example.com/dress.png",
+      },
+    });
+    expect(textOf(result)).toContain("Image urls:\nhttps://example.com/1.png");
+    expect(result.structuredContent).toMatchObject({
+      task_type: "ai_try_on",
+      assets: [
+        {
+          kind: "image",
+          url: "https://example.com/1.png",
+          width: 768,
+          height: 1024,
+        },
+      ],
+    });
+  });
+
+  it("returns generated lyrics as text", async () => {
+    piapi.setTask({
+      output: {
+        title: "Night Drive",
+        text: "[Verse]\nCity lights",
+        status: "complete",
+      },
+    });
+    const result = await client.callTool({
+      name: "generate_lyrics_suno",
+      arguments: { prompt: "a song about driving at night" },
+    });
+    expect(textOf(result)).toBe(
+      "TaskId: task-1\nLyrics generated successfully!\nUsage: 100 tokens\nTitle: Night Drive\nLyrics:\n[Verse]\nCity lights"
+    );
+    expect(result.structuredContent).toMatchObject({
+      task_type: "generate_lyrics",
+      assets: [],
+      texts: ["[Verse]\nCity lights"],
+    });
+  });
+
+  it("reports failed tasks as errors", async () => {
+    piapi.setTask({ status: "failed", error: { message: "nsfw content" } });
+    const result = await client.callTool({
+      name: "generate_image",
+      arguments: { prompt: "a fox" },
+    });
+    expect(result.isError).toBe(true);
+    expect(textOf(result)).toContain("nsfw content");
+  });
+
+  it("reports unparseable outputs as errors", async () => {
+    piapi.setTask({ output: { unexpected: true } });
+    const result = await client.callTool({
+      name: "generate_video_wan",
+      arguments: { prompt: "rain" },
+    });
+    expect(result.isError).toBe(true);
+    expect(textOf(result)).toContain(
+      "TaskId: task-1, Invalid video output format"
+    );
+  });
+});
@@ -0,0 +1,12 @@
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  test: {
+    include: ["test/**/*.test.ts"],
+    setupFiles: ["test/setup.ts"],
+    env: {
+      PIAPI_API_KEY: "test-api-key",
+      NODE_ENV: "production",
+    },
+  },
+});